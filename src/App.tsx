@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
     ChevronRight, 
     Plus, 
@@ -17,124 +17,141 @@ import {
     Link,
     Copy,
     Zap,
-    Play
+    Play,
+    ListPlus,
+    Archive,
+    Undo2,
+    Redo2,
+    History,
+    Activity,
+    Lock,
+    Calendar,
+    Palette,
+    Globe,
+    KeyRound,
+    Ban,
+    ShieldCheck,
+    MoreHorizontal
 } from 'lucide-react';
-
-// --- Types ---
-
-type DataType = 'text' | 'number' | 'boolean' | 'dictionary' | 'list' | 'expression';
-
-interface DataNode {
-  id: string;
-  type: DataType;
-  value: any; // string | number | boolean | DataNode[] | { [key: string]: DataNode }
-  name: string; // Key name (used if parent is dictionary)
-}
-
-// --- Utils ---
-
-const generateId = () => Math.random().toString(36).substr(2, 9);
-
-// Resolve a path like "config.theme.color" or "users.0.name" in the data tree
-const resolvePath = (root: DataNode[], path: string): any => {
-  const parts = path.split('.');
-  let current: any = root; // Root is essentially a list of nodes in our internal representation
-
-  for (let i = 0; i < parts.length; i++) {
-    const part = parts[i];
-    
-    // If current is array (our internal representation of Dict or List children)
-    if (Array.isArray(current)) {
-      // Try to find by name (Dict key) or index (List index)
-      const found = current.find(node => node.name === part) || current[parseInt(part)];
-      if (!found) return undefined;
-      
-      if (i === parts.length - 1) {
-        return found; // Return the node itself at the end
-      }
-      current = found.value;
-    } else {
-      return undefined; // Path goes deeper than structure allows
-    }
-  }
-  return undefined;
-};
-
-// Evaluate expression string: "{{items.0.price}} * {{tax}}"
-const evaluateExpression = (expression: string, root: DataNode[]): { result: any, error?: string } => {
-  if (!expression) return { result: '' };
-
-  // 1. Regex to find {{ path }} patterns
-  const referenceRegex = /\{\{([a-zA-Z0-9_.]+)\}\}/g;
-  
-  let resolvedString = expression;
-  let hasReferences = false;
-
-  try {
-    resolvedString = expression.replace(referenceRegex, (_match, path) => {
-      hasReferences = true;
-      const node = resolvePath(root, path);
-      
-      if (!node) throw new Error(`Key not found: ${path}`);
-      
-      // If referencing another expression, we theoretically need recursion, 
-      // but to prevent infinite loops, we'll just take the raw value or simple resolve.
-      // For this MVP, we assume references point to primitives or simple values.
-      if (node.type === 'expression') {
-         // Simple 1-level recursion check could go here, but avoiding for stability
-         return node.value; 
-      }
-      
-      return String(node.value);
-    });
-
-    // 2. If it looks like math, try to eval it safely-ish
-    // Only eval if it contains math operators or was a reference replacement
-    const isMath = /[+\-*/%()]/.test(resolvedString) || !isNaN(Number(resolvedString));
-    
-    if (isMath && hasReferences) {
-        // Very basic safety check - only allow digits and math symbols
-        if (!/^[0-9+\-*/().\s]+$/.test(resolvedString)) {
-            // If it resolved to text (e.g. "Hello " + "World"), handle string concat
-             // Actually, JS eval handles strings too, but let's be careful.
-             // If the resolved string is not purely math, return it as text
-             return { result: resolvedString };
-        }
-        // eslint-disable-next-line no-new-func
-        const mathResult = new Function(`return ${resolvedString}`)();
-        return { result: mathResult };
-    }
-
-    return { result: resolvedString };
-
-  } catch (err: any) {
-    return { result: 'ERR', error: err.message };
-  }
-};
-
-
-// Recursive function to get a flat object representation for Export
-const exportData = (nodes: DataNode[]): any => {
-  const result: any = {};
-  nodes.forEach(node => {
-    if (node.type === 'dictionary' && Array.isArray(node.value)) {
-      result[node.name] = exportData(node.value);
-    } else if (node.type === 'list' && Array.isArray(node.value)) {
-      result[node.name] = node.value.map((item: DataNode) => {
-        if (['dictionary', 'list'].includes(item.type)) {
-            // For lists, we need to handle the structure differently since our internal node has a 'name' but lists are anonymous
-            // We'll treat the internal 'value' array as the source
-            return Array.isArray(item.value) ? exportData(item.value) : item.value; 
-        }
-        return item.value;
-      });
-    } else {
-      result[node.name] = node.value;
-    }
-  });
-  return result;
-};
-
+import type { DataNode, DataType, ValidationRules } from './types';
+import { TreeError, checkKeyName, cloneNode, findNodeChain, generateId, listContainers, moveNode, renumberList, uniqueName } from './tree';
+import { convertNode } from './convert';
+import { enforceRules, exportJsonSchema, hasRules, SchemaError } from './schema';
+import { DATA_TYPES, TYPE_LABELS, ValueError, defaultValue, displayValue, isSafeUrl, parseTypedValue } from './dataTypes';
+import { IMPORT_MODES, combineImport, parseImport, parseJson, type ImportMode, type ImportWarning } from './importer';
+import { emptyHistory, loadHistory, recordChange, redo, saveHistory, undo, type HistoryState } from './history';
+import { diffNodes, revertEntries, type DiffEntry } from './diff';
+import { addSnapshot, createSnapshot, loadSnapshots, needsDailySnapshot, pruneSnapshots, saveSnapshots, type Snapshot, type SnapshotKind } from './snapshots';
+import DiffList from './components/DiffList';
+import HistoryPanel from './components/HistoryPanel';
+import JarMenu from './components/JarMenu';
+import { isQuotaError, openDefaultAdapter, type StorageAdapter } from './storage';
+import {
+    changePassphrase,
+    createEncryptedAdapter,
+    disableEncryption,
+    enableEncryption,
+    isEncryptedExport,
+    isLocked,
+    loadEncryptionConfig,
+    lock,
+    onEncryptedWriteError,
+    openExport,
+    protectExport,
+    unlock,
+    updateAutoLock,
+    type EncryptionConfig
+} from './encryption';
+import EncryptionPanel from './components/EncryptionPanel';
+import UnlockScreen from './components/UnlockScreen';
+import { mergeTrees, treesEqual } from './merge';
+import { TAB_ID, openTabChannel, type TabChannel, type TabMessage } from './tabSync';
+import {
+    SyncError,
+    loadSyncSettings,
+    loadSyncState,
+    queueWrite,
+    resetSyncState,
+    saveSyncSettings,
+    syncJar,
+    transportFor,
+    type SyncSettings,
+    type SyncStatus
+} from './remoteSync';
+import SyncPanel, { SyncBadge } from './components/SyncPanel';
+import ValueEditor from './components/ValueEditor';
+import RulesPanel from './components/RulesPanel';
+import SearchBar from './components/SearchBar';
+import NodeActions, { type MoveTarget } from './components/NodeActions';
+import UsedByList from './components/UsedByList';
+import FormulaEditor from './components/FormulaEditor';
+import TracePanel from './components/TracePanel';
+import ApiSecurityPanel from './components/ApiSecurityPanel';
+import {
+  addToken,
+  checkWritePermissions,
+  clearRejectedCalls,
+  loadApiSecurity,
+  loadRejectedCalls,
+  logRejectedCall,
+  readCredentials,
+  saveApiSecurity,
+  signUrl,
+  verifyCredentials,
+  type ApiCredentials,
+  type ApiSecuritySettings,
+} from './apiSecurity';
+import { findUsages, rewriteReferences } from './references';
+import { pathOfId } from './paths';
+import { traceExpression } from './trace';
+import ActivityPanel from './components/ActivityPanel';
+import NodeHistory from './components/NodeHistory';
+import {
+  appendChanges,
+  changesToCsv,
+  describeChanges,
+  loadChangeLog,
+  loadChangeLogSettings,
+  pruneChanges,
+  saveChangeLog,
+  saveChangeLogSettings,
+  type ChangeEntry,
+  type ChangeLogSettings,
+  type ChangeSource,
+} from './changeLog';
+import type { SearchResult } from './search';
+import { exportData } from './exporter';
+import {
+    createJarStore,
+    findJar,
+    loadJarIndex,
+    saveJarIndex,
+    uniqueJarName,
+    type JarIndex
+} from './jars';
+import { BACKUP_EXTENSION, createBackup, isBackupDocument, restoreBackup, type BackupJar } from './backup';
+import { displayResult, evaluateExpression } from './expression';
+import { createExpressionGraph } from './dependencies';
+import {
+    ACTION_DESCRIPTIONS,
+    API_ACTIONS,
+    actionTakesType,
+    actionTakesValue,
+    ApiError,
+    applyApiAction,
+    applyApiBatch,
+    buildCallbackUrl,
+    encodeBatchOps,
+    errorCallbackParams,
+    isReadAction,
+    isShortcutsCallback,
+    parseBatchOps,
+    readApiValue,
+    readCallbackUrls,
+    type ApiAction,
+    type ApiRequest,
+    type CallbackUrls
+} from './urlApi';
 
 // --- Components ---
 
@@ -143,6 +160,11 @@ const IconForType = ({ type, className = "w-4 h-4" }: { type: DataType, classNam
     case 'text': return <Type className={className} />;
     case 'number': return <Hash className={className} />;
     case 'boolean': return <ToggleLeft className={className} />;
+    case 'date': return <Calendar className={className} />;
+    case 'color': return <Palette className={className} />;
+    case 'url': return <Globe className={className} />;
+    case 'secret': return <KeyRound className={className} />;
+    case 'null': return <Ban className={className} />;
     case 'list': return <ListIcon className={className} />;
     case 'dictionary': return <Folder className={className} />;
     case 'expression': return <Calculator className={`text-purple-500 ${className}`} />;
@@ -150,11 +172,24 @@ const IconForType = ({ type, className = "w-4 h-4" }: { type: DataType, classNam
   }
 };
 
-const Breadcrumbs = ({ path, onNavigate }: { path: { id: string, name: string }[], onNavigate: (index: number) => void }) => (
+interface BreadcrumbsProps {
+  path: { id: string, name: string }[];
+  onNavigate: (index: number) => void;
+  onDropNode?: (index: number) => void; // A row was dragged onto a step (-1 is the jar itself)
+}
+
+// Steps accept dropped rows, except the last one, which is where they already are
+const dropProps = (index: number, last: boolean, onDropNode?: (index: number) => void) =>
+  onDropNode && !last
+    ? { onDragOver: (e: React.DragEvent) => e.preventDefault(), onDrop: (e: React.DragEvent) => { e.preventDefault(); onDropNode(index); } }
+    : {};
+
+const Breadcrumbs = ({ path, onNavigate, onDropNode }: BreadcrumbsProps) => (
   <div className="flex items-center text-sm font-medium text-slate-500 overflow-x-auto whitespace-nowrap scrollbar-hide px-4 py-3 bg-slate-50 border-b border-slate-200">
     <button 
       onClick={() => onNavigate(-1)} 
       className="hover:text-blue-600 transition-colors flex items-center"
+      {...dropProps(-1, path.length === 0, onDropNode)}
     >
       <Folder className="w-4 h-4 mr-1" />
       Jar
@@ -165,6 +200,7 @@ const Breadcrumbs = ({ path, onNavigate }: { path: { id: string, name: string }[
         <button 
           onClick={() => onNavigate(index)}
           className={`hover:text-blue-600 transition-colors ${index === path.length - 1 ? 'text-slate-900' : ''}`}
+          {...dropProps(index, index === path.length - 1, onDropNode)}
         >
           {item.name}
         </button>
@@ -173,46 +209,137 @@ const Breadcrumbs = ({ path, onNavigate }: { path: { id: string, name: string }[
   </div>
 );
 
+const SYNC_DELAY_MS = 2000;
+const SYNC_INTERVAL_MS = 30000;
+
+// Shown the first time the app opens
+const SAMPLE_DATA: DataNode[] = [
+    { id: '1', name: 'greeting', type: 'text', value: 'Hello World' },
+    { id: '2', name: 'config', type: 'dictionary', value: [
+        { id: '2a', name: 'theme', type: 'text', value: 'dark' },
+        { id: '2b', name: 'fontSize', type: 'number', value: 14 }
+    ]},
+    { id: '3', name: 'price', type: 'number', value: 100 },
+    { id: '4', name: 'tax_rate', type: 'number', value: 0.2 },
+    { id: '5', name: 'total_cost', type: 'expression', value: '{{price}} * (1 + {{tax_rate}})' },
+];
+
 export default function App() {
   // --- State ---
-  
-  // 1. Load initial state from LocalStorage if available
-  const [data, setData] = useState<DataNode[]>(() => {
-    const saved = localStorage.getItem('data-jar-storage');
-    if (saved) {
-        try {
-            return JSON.parse(saved);
-        } catch (e) {
-            console.error("Failed to load local storage", e);
-        }
-    }
-    // Default / First-time user state
-    return [
-        { id: '1', name: 'greeting', type: 'text', value: 'Hello World' },
-        { id: '2', name: 'config', type: 'dictionary', value: [
-            { id: '2a', name: 'theme', type: 'text', value: 'dark' },
-            { id: '2b', name: 'fontSize', type: 'number', value: 14 }
-        ]},
-        { id: '3', name: 'price', type: 'number', value: 100 },
-        { id: '4', name: 'tax_rate', type: 'number', value: 0.2 },
-        { id: '5', name: 'total_cost', type: 'expression', value: '{{price}} * (1 + {{tax_rate}})' },
-    ];
-  });
 
-  // 2. Persist to LocalStorage whenever data changes
+  // 1. The jars and which one is open (the ref lets a URL call switch jar and write in one event)
+  const [jarIndex, setJarIndex] = useState<JarIndex>(loadJarIndex);
+  const activeJarId = jarIndex.activeId;
+  const activeJarIdRef = useRef(activeJarId);
+
+  // 2. The open jar's tree, loaded asynchronously from the best available storage backend
+  //    (through the encryption layer, which passes data through unless encryption is on)
+  const [data, setData] = useState<DataNode[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [storage] = useState(() => openDefaultAdapter().then(createEncryptedAdapter));
+  const [jarStore] = useState(() => createJarStore(storage, err => {
+    setStorageError(isQuotaError(err)
+      ? 'Storage is full: recent changes are not saved. Delete old snapshots or jars, or back up and clear space.'
+      : `Could not save changes: ${err instanceof Error ? err.message : String(err)}`);
+  }));
+
+  // Encrypted jars stay unloaded until the passphrase is entered
+  const [encryptionConfig, setEncryptionConfig] = useState<EncryptionConfig | null>(loadEncryptionConfig);
+  const [unlocked, setUnlocked] = useState(() => !isLocked());
   useEffect(() => {
-    localStorage.setItem('data-jar-storage', JSON.stringify(data));
+    onEncryptedWriteError(err => setStorageError(`Could not save changes: ${err instanceof Error ? err.message : String(err)}`));
+  }, []);
+
+  // Latest tree for URL API calls, which fire from listeners outside the render cycle
+  const dataRef = useRef(data);
+  useEffect(() => {
+    dataRef.current = data;
   }, [data]);
 
+  useEffect(() => {
+    if (!unlocked) return;
+    loadJarRef.current(activeJarIdRef.current).then(jar => {
+      // Default / first-time user state
+      showJarRef.current(activeJarIdRef.current, jar, jar.nodes ?? SAMPLE_DATA);
+      setLoaded(true);
+    }, err => {
+      // Stay on the loading screen rather than save over data we could not read
+      setStorageError(`Could not load your data: ${err instanceof Error ? err.message : String(err)}`);
+    });
+  }, [jarStore, unlocked]);
+
+  // 3. Persist whenever data changes (debounced, only the top-level entries that changed)
+  useEffect(() => {
+    if (loaded) jarStore.save(activeJarId, data);
+  }, [jarStore, loaded, activeJarId, data]);
+
+  // Write out anything pending before the tab is hidden or closed
+  useEffect(() => {
+    const onHide = () => {
+      if (document.visibilityState === 'hidden') jarStore.flush();
+    };
+    document.addEventListener('visibilitychange', onHide);
+    return () => document.removeEventListener('visibilitychange', onHide);
+  }, [jarStore]);
+
+  // 4. Undo / redo history, persisted so a change can be reverted after a reload
+  const [history, setHistory] = useState<HistoryState>(emptyHistory);
+  useEffect(() => {
+    if (loaded) saveHistory(jarStore, activeJarId, history);
+  }, [jarStore, loaded, activeJarId, history]);
+
+  // Change log: every change to the jar, kept for as long as the retention settings say
+  const [changeLog, setChangeLog] = useState<ChangeEntry[]>([]);
+  const [changeLogSettings, setChangeLogSettings] = useState<ChangeLogSettings>(loadChangeLogSettings);
+  useEffect(() => {
+    if (loaded) saveChangeLog(jarStore, activeJarId, changeLog);
+  }, [jarStore, loaded, activeJarId, changeLog]);
+
+  // 5. Remote sync settings and how the open jar stands against the server
+  const [syncSettings, setSyncSettings] = useState<SyncSettings | null>(loadSyncSettings);
+  // The server would see the jar in the clear, so sync stays off while encryption is on
+  const syncOn = syncSettings !== null && encryptionConfig === null;
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(() => ({
+    phase: syncSettings ? 'idle' : 'off',
+    pending: syncSettings ? loadSyncState(jarIndex.activeId).queue.length : 0
+  }));
+  const syncingRef = useRef(false);
+  const syncTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  // 6. Point-in-time snapshots of the whole jar (the ref lets several be taken in one event)
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const snapshotsRef = useRef(snapshots);
+
   const [path, setPath] = useState<{ id: string, name: string, type: DataType }[]>([]);
   
   // UI State
   const [isAdding, setIsAdding] = useState(false);
   const [editingNodeId, setEditingNodeId] = useState<string | null>(null);
+  const [rulesNodeId, setRulesNodeId] = useState<string | null>(null);
+  const [highlightId, setHighlightId] = useState<string | null>(null);
+  const [actionsNodeId, setActionsNodeId] = useState<string | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
   const [importModalOpen, setImportModalOpen] = useState(false);
   const [integrationModalOpen, setIntegrationModalOpen] = useState(false);
+  const [historyPanelOpen, setHistoryPanelOpen] = useState(false);
+  const [activityPanelOpen, setActivityPanelOpen] = useState(false);
+  const [syncPanelOpen, setSyncPanelOpen] = useState(false);
+  const [encryptionPanelOpen, setEncryptionPanelOpen] = useState(false);
+  const [apiSecurityOpen, setApiSecurityOpen] = useState(false);
+  const [apiSecurity, setApiSecurity] = useState<ApiSecuritySettings>(loadApiSecurity);
+  const [rejectedCalls, setRejectedCalls] = useState(loadRejectedCalls);
   const [jsonInput, setJsonInput] = useState('');
-  const [apiSuccess, setApiSuccess] = useState<string | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>('replace');
+  const [importPreview, setImportPreview] = useState<{
+    entries: DiffEntry[],
+    before: DataNode[],
+    proposed: DataNode[],
+    warnings: ImportWarning[],
+    intoCurrent: boolean
+  } | null>(null);
+  const [importRejected, setImportRejected] = useState<number[]>([]);
+  const [toast, setToast] = useState<{ message: string, tone: 'success' | 'error' } | null>(null);
 
   // Form State
   const [newItemName, setNewItemName] = useState('');
@@ -223,6 +350,11 @@ export default function App() {
   const [shortcutKey, setShortcutKey] = useState('');
   const [shortcutValue, setShortcutValue] = useState('');
   const [shortcutType, setShortcutType] = useState<DataType>('text');
+  const [shortcutAction, setShortcutAction] = useState<ApiAction>('set');
+  const [shortcutCallbacks, setShortcutCallbacks] = useState<CallbackUrls>({});
+  const [shortcutJar, setShortcutJar] = useState('');
+  const [shortcutBatch, setShortcutBatch] = useState<ApiRequest[]>([]);
+  const [shortcutAuth, setShortcutAuth] = useState<'sign' | 'token' | 'none'>('sign');
 
   // --- Helpers ---
 
@@ -241,94 +373,369 @@ export default function App() {
     return current;
   }, [data, path]);
 
-  // Deep update function for URL API
-  const setDeepValue = (nodes: DataNode[], pathStr: string, value: any, type: DataType = 'text'): DataNode[] => {
-    const parts = pathStr.split('.');
-    const key = parts[0];
-    const rest = parts.slice(1);
-    
-    // Normalize list indices if needed (though user might provide names)
-    // For this simple implementation, we rely on 'name' matching.
-    
-    const existingIndex = nodes.findIndex(n => n.name === key);
-
-    if (existingIndex >= 0) {
-        // Node exists
-        const node = nodes[existingIndex];
-        
-        if (rest.length === 0) {
-            // Target reached, update value
-            return [
-                ...nodes.slice(0, existingIndex),
-                { ...node, value: value, type: type }, // Update type too if provided
-                ...nodes.slice(existingIndex + 1)
-            ];
-        } else {
-            // Need to go deeper
-            if (node.type !== 'dictionary' && node.type !== 'list') {
-                return nodes; // Cannot traverse non-container
-            }
-            return [
-                ...nodes.slice(0, existingIndex),
-                { 
-                    ...node, 
-                    value: setDeepValue(node.value as DataNode[], rest.join('.'), value, type) 
-                },
-                ...nodes.slice(existingIndex + 1)
-            ];
-        }
-    } else {
-        // Create new
-        if (rest.length === 0) {
-            // Create leaf
-            const newNode: DataNode = {
-                id: generateId(),
-                name: key,
-                type: type,
-                value: value
-            };
-            return [...nodes, newNode];
-        } else {
-            // Create intermediate
-            const newNode: DataNode = {
-                id: generateId(),
-                name: key,
-                type: 'dictionary',
-                value: setDeepValue([], rest.join('.'), value, type)
-            };
-            return [...nodes, newNode];
-        }
+  // The open container's path, written the way formulas and the URL API address it
+  const currentPath = useMemo(() => (path.length > 0 ? pathOfId(data, path[path.length - 1].id) ?? '' : ''), [data, path]);
+
+  // Evaluate every expression once per change, in dependency order
+  const expressionGraph = useMemo(() => createExpressionGraph(), []);
+  const expressionResults = useMemo(() => expressionGraph.evaluate(data), [expressionGraph, data]);
+
+  // Show a transient toast message
+  const showToast = (message: string, tone: 'success' | 'error' = 'success', duration = 3000) => {
+    setToast({ message, tone });
+    setTimeout(() => setToast(null), duration);
+  };
+
+  const updateSnapshots = (update: (snapshots: Snapshot[]) => Snapshot[]) => {
+    const next = update(snapshotsRef.current);
+    saveSnapshots(jarStore, activeJarIdRef.current, next);
+    snapshotsRef.current = next;
+    setSnapshots(next);
+  };
+
+  const takeSnapshot = (label: string, kind: SnapshotKind, from = dataRef.current) => {
+    updateSnapshots(prev => addSnapshot(prev, createSnapshot(from, label, kind)));
+  };
+
+  // Tell other open tabs about a change so they can merge it
+  const tabChannelRef = useRef<TabChannel | null>(null);
+  const lastChangeAtRef = useRef(0);
+  const broadcastChange = (before: DataNode[], after: DataNode[], source: ChangeSource, label: string) => {
+    lastChangeAtRef.current = Date.now();
+    tabChannelRef.current?.post({ kind: 'change', tabId: TAB_ID, jarId: activeJarIdRef.current, at: lastChangeAtRef.current, before, after, source, label });
+  };
+
+  // Shorter retention applies to what's already logged, not just to what comes next
+  const handleChangeLogSettings = (settings: ChangeLogSettings) => {
+    saveChangeLogSettings(settings);
+    setChangeLogSettings(settings);
+    setChangeLog(prev => pruneChanges(prev, settings));
+  };
+
+  const recordChanges = (before: DataNode[], after: DataNode[], source: ChangeSource, label: string, at?: number) => {
+    const entries = describeChanges(before, after, source, label, at);
+    setChangeLog(prev => appendChanges(prev, entries, changeLogSettings));
+  };
+
+  // A local edit: other tabs merge it now, the sync server gets it on the next sync
+  const publishChange = (label: string, before: DataNode[], after: DataNode[], source: ChangeSource) => {
+    recordChanges(before, after, source, label);
+    broadcastChange(before, after, source, label);
+    if (!syncOn) return;
+    try {
+      queueWrite(activeJarIdRef.current, label);
+    } catch (err) {
+      console.error("Could not queue change for sync", err);
+    }
+    setSyncStatus(prev => ({ ...prev, pending: prev.pending + 1 }));
+    clearTimeout(syncTimerRef.current);
+    syncTimerRef.current = setTimeout(() => runSyncRef.current(), SYNC_DELAY_MS);
+  };
+
+  const announceJars = () => {
+    tabChannelRef.current?.post({ kind: 'jars', tabId: TAB_ID });
+  };
+
+  // Every mutation of the jar goes through here so it can be undone
+  const commitData = (label: string, update: (nodes: DataNode[]) => DataNode[], source: ChangeSource = 'edit') => {
+    const before = dataRef.current;
+    const after = update(before);
+    if (after === before) return;
+    // The first change of each day keeps a copy of the jar as it was
+    if (needsDailySnapshot(snapshotsRef.current)) takeSnapshot(`Daily · ${new Date().toLocaleDateString()}`, 'daily', before);
+    dataRef.current = after;
+    setData(after);
+    setHistory(prev => recordChange(prev, label, before));
+    publishChange(label, before, after, source);
+  };
+
+  const handleUndo = () => {
+    const step = undo(history, dataRef.current);
+    if (!step) return;
+    publishChange(`Undo: ${step.label}`, dataRef.current, step.data, 'undo');
+    dataRef.current = step.data;
+    setData(step.data);
+    setHistory(step.history);
+    showToast(`Undid: ${step.label}`);
+  };
+
+  const handleRedo = () => {
+    const step = redo(history, dataRef.current);
+    if (!step) return;
+    publishChange(`Redo: ${step.label}`, dataRef.current, step.data, 'undo');
+    dataRef.current = step.data;
+    setData(step.data);
+    setHistory(step.history);
+    showToast(`Redid: ${step.label}`);
+  };
+
+  // Everything kept for a jar, read before any of it goes on screen so the
+  // history of one jar is never saved under another
+  const loadJar = async (jarId: string) => {
+    const [nodes, history, snapshots, changes] = await Promise.all([
+      jarStore.load(jarId),
+      loadHistory(jarStore, jarId),
+      loadSnapshots(jarStore, jarId),
+      loadChangeLog(jarStore, jarId),
+    ]);
+    return { nodes, history, snapshots, changes };
+  };
+
+  // Put a loaded jar on screen along with its history, snapshots and change log
+  const showJar = (jarId: string, jar: Awaited<ReturnType<typeof loadJar>>, nodes: DataNode[]) => {
+    activeJarIdRef.current = jarId;
+    dataRef.current = nodes;
+    snapshotsRef.current = jar.snapshots;
+    setData(nodes);
+    setHistory(jar.history);
+    setChangeLog(pruneChanges(jar.changes, changeLogSettings));
+    setSnapshots(jar.snapshots);
+    setPath([]);
+  };
+
+  const loadJarRef = useRef(loadJar);
+  const showJarRef = useRef(showJar);
+  useEffect(() => {
+    loadJarRef.current = loadJar;
+    showJarRef.current = showJar;
+  });
+
+  const switchJar = async (jarId: string, index = jarIndex) => {
+    await jarStore.flush();
+    const jar = await loadJar(jarId);
+
+    const nextIndex = { ...index, activeId: jarId };
+    saveJarIndex(nextIndex);
+    setJarIndex(nextIndex);
+    showJar(jarId, jar, jar.nodes ?? []);
+  };
+
+  // --- Encryption ---
+
+  const handleUnlock = async (passphrase: string) => {
+    await unlock(passphrase);
+    setUnlocked(true);
+  };
+
+  // Write out what's pending, then drop the key and every decrypted copy from memory
+  const handleLock = async () => {
+    await jarStore.flush();
+    jarStore.forget();
+    await lock();
+    setLoaded(false);
+    setUnlocked(false);
+    dataRef.current = [];
+    snapshotsRef.current = [];
+    setData([]);
+    setHistory(emptyHistory);
+    setChangeLog([]);
+    setSnapshots([]);
+    setPath([]);
+    setEditingNodeId(null);
+    setRulesNodeId(null);
+    setActionsNodeId(null);
+    setIsAdding(false);
+    closeImportModal();
+    setHistoryPanelOpen(false);
+    setActivityPanelOpen(false);
+    setSyncPanelOpen(false);
+    setEncryptionPanelOpen(false);
+    setIntegrationModalOpen(false);
+  };
+
+  const lockRef = useRef(handleLock);
+  useEffect(() => {
+    lockRef.current = handleLock;
+  });
+
+  // Auto-lock after a stretch without pointer or keyboard activity
+  useEffect(() => {
+    const minutes = encryptionConfig?.autoLockMinutes ?? 0;
+    if (!loaded || minutes <= 0) return;
+    let timer = setTimeout(() => lockRef.current(), minutes * 60000);
+    const onActivity = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => lockRef.current(), minutes * 60000);
+    };
+    const events = ['pointerdown', 'keydown', 'wheel'];
+    events.forEach(name => window.addEventListener(name, onActivity));
+    return () => {
+      clearTimeout(timer);
+      events.forEach(name => window.removeEventListener(name, onActivity));
+    };
+  }, [loaded, encryptionConfig]);
+
+  // Everything is re-encrypted, so make sure the store has nothing pending first
+  const changeEncryption = async (change: (adapter: StorageAdapter) => Promise<void>, message: string) => {
+    await jarStore.flush();
+    await change(await storage);
+    setEncryptionConfig(loadEncryptionConfig());
+    showToast(message);
+  };
+
+  // Add a jar (optionally with content) and open it
+  const addJar = (name: string, nodes: DataNode[] = []) => {
+    const jar = { id: generateId(), name: uniqueJarName(jarIndex, name) };
+    jarStore.save(jar.id, nodes);
+    switchJar(jar.id, { ...jarIndex, jars: [...jarIndex.jars, jar] }).then(announceJars);
+  };
+
+  const activeJarName = jarIndex.jars.find(jar => jar.id === activeJarId)?.name ?? 'Jar';
+
+  const handleCreateJar = () => {
+    const name = prompt('Name for the new jar')?.trim();
+    if (name) addJar(name);
+  };
+
+  const handleRenameJar = () => {
+    const name = prompt('Rename jar', activeJarName)?.trim();
+    if (!name || name === activeJarName) return;
+    const others = { ...jarIndex, jars: jarIndex.jars.filter(jar => jar.id !== activeJarId) };
+    if (uniqueJarName(others, name) !== name) {
+      showToast(`A jar named "${name}" already exists`, 'error');
+      return;
     }
+    const nextIndex = { ...jarIndex, jars: jarIndex.jars.map(jar => jar.id === activeJarId ? { ...jar, name } : jar) };
+    saveJarIndex(nextIndex);
+    setJarIndex(nextIndex);
+    // The server copy is found by name, so the renamed jar starts a fresh one
+    resetSyncState(jarStore, activeJarId);
+    announceJars();
   };
 
+  const handleDuplicateJar = () => {
+    addJar(`${activeJarName} copy`, dataRef.current);
+  };
+
+  const handleDeleteJar = () => {
+    if (jarIndex.jars.length < 2) return;
+    if (!confirm(`Delete the jar "${activeJarName}" with its history and snapshots?`)) return;
+    const deletedId = activeJarId;
+    const jars = jarIndex.jars.filter(jar => jar.id !== deletedId);
+    switchJar(jars[0].id, { ...jarIndex, jars }).then(() => jarStore.remove(deletedId)).then(announceJars);
+    showToast(`Deleted "${activeJarName}"`);
+  };
+
+  // Every jar's tree, with the open one taken from memory
+  const allJars = () => Promise.all(jarIndex.jars.map(async jar => ({
+    ...jar,
+    nodes: jar.id === activeJarId ? dataRef.current : await jarStore.load(jar.id) ?? []
+  })));
+
+  // Cmd/Ctrl+Z to undo, Cmd/Ctrl+Shift+Z or Ctrl+Y to redo (text fields keep their own undo)
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      if (!(e.metaKey || e.ctrlKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
   // URL API Logic
-  const handleApiTrigger = (key: string, value: string, type: string) => {
-    if (key && (value !== null || type === 'dictionary' || type === 'list')) {
-        // Clean value based on type
-        let cleanValue: any = value;
-        if (type === 'number') cleanValue = parseFloat(value);
-        if (type === 'boolean') cleanValue = (value === 'true');
-        if (type === 'dictionary' || type === 'list') cleanValue = [];
-        
-        // Execute update
-        setData(prev => setDeepValue(prev, key, cleanValue, type as DataType));
-        
-        // Show success feedback
-        setApiSuccess(`Updated key "${key}"`);
-        setTimeout(() => setApiSuccess(null), 3000);
+  const logRejection = (request: ApiRequest, reason: string) => {
+    let keys = [request.key];
+    try {
+      if (request.ops !== undefined) keys = parseBatchOps(request.ops).map(op => op.key);
+    } catch {
+      // The reason already says what was wrong with the batch
     }
+    logRejectedCall({ action: request.action, keys, reason });
+    setRejectedCalls(loadRejectedCalls());
   };
 
+  // `credentials` is what a link offered; calls made from inside the app have none to check
+  const handleApiTrigger = async (request: ApiRequest, callback: CallbackUrls = {}, credentials?: ApiCredentials) => {
+    const ops = () => (request.ops !== undefined ? parseBatchOps(request.ops) : [request]);
+    try {
+      if (credentials) {
+        const trusted = await verifyCredentials(apiSecurity, credentials);
+        if (!trusted && isReadAction(request.action) && callback.success && !isShortcutsCallback(callback.success)) {
+          throw new ApiError('unauthorized', 'An unsigned link can only send what it reads back to Shortcuts');
+        }
+        if (!trusted && apiSecurity.unsigned === 'reject') {
+          throw new ApiError('unauthorized', 'This link is not signed. Copy a new one from the Shortcuts builder.');
+        }
+        // Reads ask too: a read sends the value to whatever callback the link names
+        if (!trusted && apiSecurity.unsigned === 'confirm') {
+          const question = isReadAction(request.action)
+            ? `An unsigned link wants to read "${request.key}"${callback.success ? ` and send it to ${callback.success}` : ''}.`
+            : `An unsigned link wants to change this jar:\n\n${ops().map(op => `${op.action} ${op.key}${actionTakesValue(op.action as ApiAction) && op.value ? ` = ${op.value}` : ''}`).join('\n')}`;
+          if (!confirm(`${question}\n\nAllow it?`)) {
+            logRejection(request, 'Declined an unsigned link');
+            if (callback.cancel) window.location.href = buildCallbackUrl(callback.cancel);
+            return;
+          }
+        }
+      }
+
+      if (request.jar) {
+        const jar = findJar(jarIndex, request.jar);
+        if (!jar) throw new ApiError('unknown_jar', `No jar named "${request.jar}"`);
+        if (jar.id !== activeJarIdRef.current) await switchJar(jar.id);
+      }
+
+      if (isReadAction(request.action)) {
+        const { result, type } = readApiValue(dataRef.current, request);
+        if (callback.success) {
+          window.location.href = buildCallbackUrl(callback.success, { result, type });
+        } else {
+          showToast(`${request.key} = ${result}`);
+        }
+        return;
+      }
+
+      const permit = (current: DataNode[], op: ApiRequest) => checkWritePermissions(current, [op], apiSecurity);
+      if (request.ops === undefined) permit(dataRef.current, request);
+      const { nodes, message } = request.ops !== undefined
+        ? applyApiBatch(dataRef.current, parseBatchOps(request.ops), permit)
+        : applyApiAction(dataRef.current, request);
+      commitData(`Shortcut: ${message}`, before => rewriteReferences(before, nodes).nodes, 'api');
+      showToast(message);
+      if (callback.success) window.location.href = buildCallbackUrl(callback.success);
+    } catch (err) {
+      if (err instanceof ApiError && (err.code === 'unauthorized' || err.code === 'forbidden')) logRejection(request, err.message);
+      showToast(err instanceof Error ? err.message : String(err), 'error', 5000);
+      // An unauthorized link isn't told anything, not even where it failed
+      if (callback.error && !(err instanceof ApiError && err.code === 'unauthorized')) window.location.href = buildCallbackUrl(callback.error, errorCallbackParams(err));
+    }
+  };
+
+  // The listener below is registered once, so it calls through a ref to the latest handler
+  const apiTriggerRef = useRef(handleApiTrigger);
+  useEffect(() => {
+    apiTriggerRef.current = handleApiTrigger;
+  });
+
+  // URL API calls wait here while the jar is loading or locked
+  const [queuedCalls, setQueuedCalls] = useState<{ request: ApiRequest, callback: CallbackUrls, credentials: ApiCredentials }[]>([]);
+
   // URL Listener (runs on mount and on popstate)
   useEffect(() => {
     const checkUrl = () => {
         const params = new URLSearchParams(window.location.search);
         const key = params.get('key');
-        const value = params.get('value');
-        const type = params.get('type') || 'text';
-        
-        if (key) {
-            handleApiTrigger(key, value || '', type);
+        const ops = params.get('ops');
+
+        if (key || ops) {
+            const request = {
+                action: params.get('action') || (ops ? 'batch' : 'set'),
+                key: key || '',
+                value: params.get('value') || '',
+                type: params.get('type') || 'text',
+                jar: params.get('jar') || undefined,
+                ops: ops || undefined
+            };
+            setQueuedCalls(prev => [...prev, { request, callback: readCallbackUrls(params), credentials: readCredentials(params) }]);
             // Clean URL without refresh
             window.history.replaceState({}, '', window.location.pathname);
         }
@@ -339,7 +746,139 @@ export default function App() {
     return () => window.removeEventListener('popstate', checkUrl);
   }, []);
 
-  const updateDataTree = (updates: (nodes: DataNode[]) => DataNode[]) => {
+  // Run queued calls in order once the jar is open
+  useEffect(() => {
+    if (!loaded || queuedCalls.length === 0) return;
+    const calls = queuedCalls;
+    setQueuedCalls([]);
+    calls.reduce((chain, { request, callback, credentials }) => chain.then(() => apiTriggerRef.current(request, callback, credentials)), Promise.resolve());
+  }, [loaded, queuedCalls]);
+
+  // Merge a change made in another tab into this one
+  const handleTabMessage = (message: TabMessage) => {
+    if (!loaded) return;
+    if (message.kind === 'jars') {
+      const index = loadJarIndex();
+      if (index.jars.some(jar => jar.id === activeJarIdRef.current)) setJarIndex({ ...index, activeId: activeJarIdRef.current });
+      else switchJar(index.jars[0].id, index);
+      return;
+    }
+    if (message.jarId !== activeJarIdRef.current) return;
+
+    // A conflict goes to the later edit; the tab id breaks ties so both tabs pick the same side
+    const localNewer = lastChangeAtRef.current > message.at || (lastChangeAtRef.current === message.at && TAB_ID > message.tabId);
+    const current = dataRef.current;
+    const { nodes, conflicts } = mergeTrees(message.before, current, message.after, localNewer ? 'local' : 'remote');
+    if (conflicts.length > 0) {
+      showToast(`Also edited in another tab: ${conflicts.join(', ')}. Kept the newer edit.`, 'error', 6000);
+    }
+    if (treesEqual(nodes, current)) return;
+
+    dataRef.current = nodes;
+    setData(nodes);
+    setHistory(prev => recordChange(prev, 'Change from another tab', current));
+    // The tab that made the change logged it too, with the same time, so either copy of the log can be saved
+    if (message.source) recordChanges(current, nodes, message.source, message.label ?? 'Change from another tab', message.at);
+    // Our own unsent edits survived the merge: hand the result back so the other tab catches up
+    if (!treesEqual(nodes, message.after)) {
+      tabChannelRef.current?.post({ kind: 'change', tabId: TAB_ID, jarId: message.jarId, at: Math.max(message.at, lastChangeAtRef.current), before: message.after, after: nodes });
+    }
+  };
+
+  const tabMessageRef = useRef(handleTabMessage);
+  useEffect(() => {
+    tabMessageRef.current = handleTabMessage;
+  });
+
+  useEffect(() => {
+    const channel = openTabChannel(message => tabMessageRef.current(message));
+    tabChannelRef.current = channel;
+    return () => channel.close();
+  }, []);
+
+  // Pull the server copy, merge, and push the result
+  const runSync = async () => {
+    if (!syncSettings || !syncOn || syncingRef.current) return;
+    syncingRef.current = true;
+    const jarId = activeJarIdRef.current;
+    const remoteKey = jarIndex.jars.find(jar => jar.id === jarId)?.name ?? jarId;
+    setSyncStatus(prev => ({ ...prev, phase: 'syncing', message: undefined }));
+    try {
+      const outcome = await syncJar(transportFor(syncSettings), jarStore, jarId, remoteKey, dataRef.current);
+      // Edits made while the sync was in flight are kept on top of the result
+      if (activeJarIdRef.current === jarId) {
+        const latest = dataRef.current;
+        const nodes = latest === outcome.base ? outcome.nodes : mergeTrees(outcome.base, latest, outcome.nodes, 'local').nodes;
+        if (!treesEqual(nodes, latest)) {
+          dataRef.current = nodes;
+          setData(nodes);
+          setHistory(prev => recordChange(prev, 'Changes from sync', latest));
+          recordChanges(latest, nodes, 'sync', 'Changes from sync');
+          broadcastChange(latest, nodes, 'sync', 'Changes from sync');
+        }
+      }
+      if (outcome.conflicts.length > 0) {
+        showToast(`Also changed on another device: ${outcome.conflicts.join(', ')}. Kept this device's edit.`, 'error', 6000);
+      }
+      const state = loadSyncState(jarId);
+      setSyncStatus({ phase: 'idle', pending: state.queue.length, syncedAt: state.syncedAt });
+    } catch (err) {
+      const pending = loadSyncState(jarId).queue.length;
+      const message = err instanceof Error ? err.message : String(err);
+      setSyncStatus(prev => ({ ...prev, phase: err instanceof SyncError && err.offline ? 'offline' : 'error', message, pending }));
+    } finally {
+      syncingRef.current = false;
+    }
+  };
+
+  const runSyncRef = useRef(runSync);
+  useEffect(() => {
+    runSyncRef.current = runSync;
+  });
+
+  // Sync when turned on, on opening a jar, on reconnecting and every so often
+  useEffect(() => {
+    if (!loaded || !syncOn) return;
+    const sync = () => runSyncRef.current();
+    sync();
+    const timer = setInterval(sync, SYNC_INTERVAL_MS);
+    window.addEventListener('online', sync);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('online', sync);
+    };
+  }, [loaded, syncOn, syncSettings, activeJarId]);
+
+  const handleSaveSyncSettings = (settings: SyncSettings | null) => {
+    if (settings?.endpoint !== syncSettings?.endpoint) jarIndex.jars.forEach(jar => resetSyncState(jarStore, jar.id));
+    saveSyncSettings(settings);
+    setSyncSettings(settings);
+    setSyncStatus({ phase: settings ? 'idle' : 'off', pending: settings ? loadSyncState(activeJarId).queue.length : 0 });
+    if (!settings) setSyncPanelOpen(false);
+  };
+
+  // Apply a user edit to the whole tree, keeping formulas pointed at the keys they
+  // referenced. Edits that break a key's rules, or that the tree or type
+  // conversion refuse, are reported with a toast instead.
+  const commitChecked = (label: string, update: (nodes: DataNode[]) => DataNode[], message?: string, source: ChangeSource = 'edit'): boolean => {
+    const before = dataRef.current;
+    let after: DataNode[];
+    let rewritten: string[];
+    try {
+      ({ nodes: after, rewritten } = rewriteReferences(before, enforceRules(before, update(before))));
+    } catch (err) {
+      if (!(err instanceof SchemaError || err instanceof TreeError || err instanceof ValueError)) throw err;
+      showToast(err.message, 'error', 5000);
+      return false;
+    }
+    commitData(label, () => after, source);
+    const note = rewritten.length > 0 ? `Updated ${rewritten.length === 1 ? 'a formula' : `${rewritten.length} formulas`} to match: ${rewritten.join(', ')}` : '';
+    if (message || note) showToast([message, note].filter(Boolean).join('. '));
+    return true;
+  };
+
+  // Apply an edit at the current level
+  const updateDataTree = (label: string, updates: (nodes: DataNode[]) => DataNode[], source: ChangeSource = 'edit'): boolean => {
     const recursiveUpdate = (nodes: DataNode[], depth: number): DataNode[] => {
       if (depth === path.length) {
         return updates(nodes);
@@ -357,35 +896,157 @@ export default function App() {
       });
     };
 
-    setData(prev => recursiveUpdate(prev, 0));
+    return commitChecked(label, prev => recursiveUpdate(prev, 0), undefined, source);
+  };
+
+  // Normalize editor input for a type; invalid dates, colors and URLs are reported, not saved
+  const parseEditorValue = (type: DataType, value: unknown): { value: unknown } | null => {
+    if (type === 'text' || type === 'expression') return { value };
+    try {
+      return { value: parseTypedValue(type, value) };
+    } catch (err) {
+      if (!(err instanceof ValueError)) throw err;
+      showToast(err.message, 'error');
+      return null;
+    }
   };
 
   const handleAdd = () => {
     if (!newItemName.trim() && path[path.length-1]?.type !== 'list') return;
     const nameToUse = path[path.length-1]?.type === 'list' ? `${currentLevelNodes.length}` : newItemName;
+    const parsed = parseEditorValue(newItemType, newItemValue);
+    if (!parsed) return;
 
     const newNode: DataNode = {
       id: generateId(),
       name: nameToUse,
       type: newItemType,
-      value: ['dictionary', 'list'].includes(newItemType) ? [] : newItemValue
+      value: parsed.value
     };
 
-    updateDataTree(nodes => [...nodes, newNode]);
+    if (!updateDataTree(`Add "${nameToUse}"`, nodes => [...nodes, newNode], 'add')) return;
     setIsAdding(false);
     resetForm();
   };
 
   const handleDelete = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    if (confirm('Delete this item?')) {
-      updateDataTree(nodes => nodes.filter(n => n.id !== id));
+    const target = currentLevelNodes.find(n => n.id === id);
+    if (!target) return;
+    // Formulas inside the deleted key go with it, so only outside readers count
+    const dependents = [...new Set(findUsages(data, id).filter(usage => !findNodeChain([target], usage.expression.id)).map(usage => usage.expressionPath))];
+    const question = dependents.length > 0
+      ? `Delete "${target.name}"? ${dependents.length === 1 ? 'This formula uses' : 'These formulas use'} it and will break:\n\n${dependents.join('\n')}`
+      : 'Delete this item?';
+    if (confirm(question)) {
+      updateDataTree(`Delete "${target.name}"`, nodes => {
+        const rest = nodes.filter(n => n.id !== id);
+        return inList ? renumberList(rest) : rest;
+      }, 'delete');
     }
   };
 
   const handleUpdateValue = (id: string, newValue: any) => {
-    updateDataTree(nodes => nodes.map(n => n.id === id ? { ...n, value: newValue } : n));
+    const target = currentLevelNodes.find(n => n.id === id);
+    if (!target) return;
+    const parsed = parseEditorValue(target.type, newValue);
+    if (!parsed) return;
+    if (!updateDataTree(`Edit "${target.name}"`, nodes => nodes.map(n => n.id === id ? { ...n, value: parsed.value } : n))) return;
+    setEditingNodeId(null);
+  };
+
+  // Open the container holding a node and flash its row
+  const revealNode = (node: DataNode, ancestors: DataNode[]) => {
+    setPath(ancestors.map(({ id, name, type }) => ({ id, name, type })));
+    setHighlightId(node.id);
+  };
+
+  const handleSearchSelect = ({ node, ancestors }: SearchResult) => revealNode(node, ancestors);
+
+  // Jump from a "used by" entry to the formula, closing the modal it was in
+  const handleJumpTo = (id: string) => {
+    const chain = findNodeChain(dataRef.current, id);
+    if (!chain) return;
     setEditingNodeId(null);
+    setActionsNodeId(null);
+    revealNode(chain[chain.length - 1], chain.slice(0, -1));
+  };
+
+  useEffect(() => {
+    if (!highlightId) return;
+    document.getElementById(`node-${highlightId}`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    const timer = setTimeout(() => setHighlightId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightId]);
+
+  const handleSaveRules = (id: string, rules: ValidationRules | undefined) => {
+    const name = currentLevelNodes.find(n => n.id === id)?.name;
+    if (!updateDataTree(`Rules for "${name}"`, nodes => nodes.map(n => n.id === id ? { ...n, rules } : n))) return;
+    setRulesNodeId(null);
+  };
+
+  // --- Restructuring ---
+
+  const inList = path[path.length - 1]?.type === 'list';
+
+  const handleRename = (id: string, name: string) => {
+    const target = currentLevelNodes.find(n => n.id === id);
+    if (!target) return;
+    try {
+      checkKeyName(currentLevelNodes, name, id);
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : String(err), 'error');
+      return;
+    }
+    if (updateDataTree(`Rename "${target.name}" to "${name}"`, nodes => nodes.map(n => n.id === id ? { ...n, name } : n))) setActionsNodeId(null);
+  };
+
+  const handleConvert = (id: string, type: DataType) => {
+    const target = currentLevelNodes.find(n => n.id === id);
+    if (!target) return;
+    if (updateDataTree(`Convert "${target.name}" to ${TYPE_LABELS[type].toLowerCase()}`, nodes => nodes.map(n => n.id === id ? convertNode(n, type) : n))) {
+      setActionsNodeId(null);
+    }
+  };
+
+  // The copy goes right after the original
+  const handleDuplicate = (id: string) => {
+    const index = currentLevelNodes.findIndex(n => n.id === id);
+    if (index < 0) return;
+    const original = currentLevelNodes[index];
+    const copy = { ...cloneNode(original), name: inList ? original.name : uniqueName(currentLevelNodes, `${original.name} copy`) };
+    const applied = updateDataTree(`Duplicate "${original.name}"`, nodes => {
+      const next = [...nodes.slice(0, index + 1), copy, ...nodes.slice(index + 1)];
+      return inList ? renumberList(next) : next;
+    }, 'add');
+    if (applied) {
+      setActionsNodeId(null);
+      setHighlightId(copy.id);
+    }
+  };
+
+  const handleMove = (id: string, targetId: string | null) => {
+    const name = findNodeName(id);
+    const destination = targetId === null ? 'the top level' : `"${findNodeName(targetId)}"`;
+    if (commitChecked(`Move "${name}" to ${destination}`, nodes => moveNode(nodes, id, targetId), `Moved "${name}" to ${destination}`)) {
+      setActionsNodeId(null);
+    }
+  };
+
+  const findNodeName = (id: string) => {
+    const chain = findNodeChain(dataRef.current, id);
+    return chain ? chain[chain.length - 1].name : '';
+  };
+
+  // Containers a node could move to: anywhere but its current parent, itself or its own children
+  const moveTargets = (node: DataNode): MoveTarget[] => {
+    const parentId = path[path.length - 1]?.id ?? null;
+    const targets: MoveTarget[] = parentId === null ? [] : [{ id: null, label: 'Top level' }];
+    listContainers(data).forEach(({ node: container, path: containerPath }) => {
+      if (container.id === parentId || findNodeChain([node], container.id)) return;
+      targets.push({ id: container.id, label: containerPath });
+    });
+    return targets;
   };
 
   const resetForm = () => {
@@ -394,70 +1055,228 @@ export default function App() {
     setNewItemValue('');
   };
 
-  const handleExport = () => {
-    const exportObj = exportData(data);
-    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(exportObj, null, 2));
+  // Exports are sealed with the passphrase when encryption is on
+  const downloadJson = async (content: unknown, filename: string) => {
+    const sealed = await protectExport(content);
+    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(sealed, null, 2));
     const downloadAnchorNode = document.createElement('a');
     downloadAnchorNode.setAttribute("href", dataStr);
-    downloadAnchorNode.setAttribute("download", "data_jar_backup.json");
+    downloadAnchorNode.setAttribute("download", filename);
+    document.body.appendChild(downloadAnchorNode);
+    downloadAnchorNode.click();
+    downloadAnchorNode.remove();
+  };
+
+  // CSV can't be sealed like the JSON exports, so say so first
+  const handleExportChanges = (entries: ChangeEntry[]) => {
+    if (encryptionConfig && !confirm('The CSV will not be encrypted. Export the change log anyway?')) return;
+    const csv = changesToCsv([...entries].sort((a, b) => a.at - b.at));
+    const downloadAnchorNode = document.createElement('a');
+    downloadAnchorNode.setAttribute("href", "data:text/csv;charset=utf-8," + encodeURIComponent(csv));
+    downloadAnchorNode.setAttribute("download", `${activeJarName} changes.csv`);
     document.body.appendChild(downloadAnchorNode);
     downloadAnchorNode.click();
     downloadAnchorNode.remove();
   };
 
-  const parseImport = (obj: any): DataNode[] => {
-     return Object.keys(obj).map(key => {
-         const val = obj[key];
-         const type = Array.isArray(val) ? 'list' : (typeof val === 'object' && val !== null) ? 'dictionary' : (typeof val);
-         
-         let finalType: DataType = 'text';
-         if (type === 'number') finalType = 'number';
-         if (type === 'boolean') finalType = 'boolean';
-         if (type === 'list') finalType = 'list';
-         if (type === 'dictionary') finalType = 'dictionary';
-         
-         let finalValue: any = val;
-         if (finalType === 'dictionary') {
-             finalValue = parseImport(val);
-         } else if (finalType === 'list') {
-             finalValue = val.map((item: any, idx: number) => {
-                 return {
-                     id: generateId(),
-                     name: `${idx}`,
-                     type: typeof item === 'object' ? 'dictionary' : typeof item, 
-                     value: item 
-                 }
-             });
-         }
-
-         return {
-             id: generateId(),
-             name: key,
-             type: finalType,
-             value: finalValue
-         };
-     });
+  // Plain JSON for interop with other tools
+  const handleExport = () => {
+    downloadJson(exportData(data), "data_jar_backup.json");
+  };
+
+  // Every jar as plain JSON, keyed by jar name
+  const handleExportAll = () => {
+    allJars().then(jars => downloadJson(Object.fromEntries(jars.map(jar => [jar.name, exportData(jar.nodes)])), "data_jar_all.json"));
+  };
+
+  // The open jar's shape and rules, for validating its JSON export elsewhere
+  const handleExportSchema = () => {
+    downloadJson(exportJsonSchema(data, activeJarName), "data_jar_schema.json");
+  };
+
+  // Lossless native backup of the open jar
+  const handleBackup = () => {
+    downloadJson(createBackup([{ id: activeJarId, name: activeJarName, nodes: data }]), `data_jar_backup${BACKUP_EXTENSION}`);
+  };
+
+  const handleBackupAll = () => {
+    allJars().then(jars => downloadJson(createBackup(jars), `data_jar_all${BACKUP_EXTENSION}`));
+  };
+
+  // A backup of several jars is restored as new jars alongside the existing ones
+  const restoreJars = (jars: BackupJar[]) => {
+    if (!confirm(`Restore ${jars.length} jars from this backup as new jars?`)) return;
+    let index = jarIndex;
+    jars.forEach(jar => {
+      const restored = { id: generateId(), name: uniqueJarName(index, jar.name) };
+      jarStore.save(restored.id, jar.nodes);
+      index = { ...index, jars: [...index.jars, restored] };
+    });
+    switchJar(index.jars[index.jars.length - 1].id, index).then(announceJars);
+    closeImportModal();
+    showToast(`Restored ${jars.length} jars`);
+  };
+
+  // Build a preview of what the import would change; nothing is applied yet
+  const handleImport = async () => {
+    let parsed: unknown;
+    try {
+      parsed = parseJson(jsonInput);
+    } catch {
+      alert("Invalid JSON");
+      return;
+    }
+    try {
+      if (isEncryptedExport(parsed)) {
+        const passphrase = prompt('This file is encrypted. Enter its passphrase:');
+        if (passphrase === null) return;
+        parsed = await openExport(parsed, passphrase);
+      }
+      let imported: { nodes: DataNode[], warnings: ImportWarning[] };
+      if (isBackupDocument(parsed)) {
+        const jars = restoreBackup(parsed);
+        if (jars.length > 1) {
+          restoreJars(jars);
+          return;
+        }
+        imported = { nodes: jars[0].nodes, warnings: [] };
+      } else {
+        imported = parseImport(parsed);
+      }
+      const { nodes: incoming, warnings } = imported;
+      const intoCurrent = importMode === 'into-current';
+      const before = intoCurrent ? currentLevelNodes : data;
+      const prefix = intoCurrent ? path.map(step => step.name) : [];
+      const intoList = intoCurrent && path[path.length - 1]?.type === 'list';
+      const combined = combineImport(importMode, before, incoming, intoList);
+      const proposed = enforceRules(before, combined, intoCurrent ? currentPath : '', intoList);
+      setImportPreview({ entries: diffNodes(before, proposed, prefix), before, proposed, warnings, intoCurrent });
+      setImportRejected([]);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      alert(err instanceof SchemaError ? `Import rejected by key rules: ${message}` : message);
+    }
+  };
+
+  // Apply the previewed import, minus any entries the user chose to skip
+  const handleApplyImport = () => {
+    if (!importPreview) return;
+    const { entries, before, proposed, intoCurrent } = importPreview;
+    const resolved = revertEntries(proposed, before, entries.filter((_entry, index) => importRejected.includes(index)));
+    const label = `Import (${IMPORT_MODES.find(m => m.mode === importMode)?.label.toLowerCase()})`;
+    // Skipping entries can leave a required key out, so check again
+    let checked: DataNode[];
+    try {
+      checked = enforceRules(before, resolved, intoCurrent ? currentPath : '', intoCurrent && path[path.length - 1]?.type === 'list');
+    } catch (err) {
+      if (!(err instanceof SchemaError)) throw err;
+      showToast(`Import rejected by key rules: ${err.message}`, 'error', 5000);
+      return;
+    }
+    takeSnapshot(`Before ${label.toLowerCase()}`, 'pre-import');
+    if (intoCurrent) updateDataTree(label, () => checked, 'import');
+    else commitData(label, () => checked, 'import');
+    closeImportModal();
+  };
+
+  const closeImportModal = () => {
+    setImportModalOpen(false);
+    setImportPreview(null);
+    setJsonInput('');
+  };
+
+  // Load a chosen .datajar / .json file into the import box
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text().then(setJsonInput);
+    e.target.value = '';
+  };
+
+  // Queue the configured write so one URL can carry several
+  const addToBatch = () => {
+      setShortcutBatch([...shortcutBatch, { action: shortcutAction, key: shortcutKey, value: shortcutValue, type: shortcutType }]);
+      setShortcutKey('');
+      setShortcutValue('');
   };
 
   // Generate URL for shortcuts
   const generateApiUrl = () => {
       const baseUrl = window.location.origin + window.location.pathname;
       const params = new URLSearchParams();
-      params.append('key', shortcutKey);
-      params.append('value', shortcutValue);
-      params.append('type', shortcutType);
-      params.append('action', 'set');
+      if (shortcutBatch.length > 0) {
+          params.append('ops', encodeBatchOps(shortcutBatch));
+      } else {
+          params.append('key', shortcutKey);
+          if (actionTakesValue(shortcutAction)) params.append('value', shortcutValue);
+          if (actionTakesType(shortcutAction)) params.append('type', shortcutType);
+          params.append('action', shortcutAction);
+      }
+      if (shortcutJar) params.append('jar', shortcutJar);
+      if (shortcutCallbacks.success) params.append('x-success', shortcutCallbacks.success);
+      if (shortcutCallbacks.error) params.append('x-error', shortcutCallbacks.error);
+      if (shortcutCallbacks.cancel) params.append('x-cancel', shortcutCallbacks.cancel);
       return `${baseUrl}?${params.toString()}`;
   };
+  const unsignedApiUrl = generateApiUrl();
+  const signingApiUrl = !!apiSecurity.secret && shortcutAuth !== 'none';
+
+  // Signing (or deriving the token) is async, so the link catches up a moment after the form changes
+  const [signedApiUrl, setSignedApiUrl] = useState<{ from: string, url: string } | null>(null);
+  useEffect(() => {
+    if (!integrationModalOpen || !signingApiUrl) return;
+    let current = true;
+    const from = `${shortcutAuth}:${unsignedApiUrl}`;
+    (shortcutAuth === 'token' ? addToken : signUrl)(unsignedApiUrl, apiSecurity.secret).then(url => {
+      if (current) setSignedApiUrl({ from, url });
+    });
+    return () => { current = false; };
+  }, [integrationModalOpen, signingApiUrl, shortcutAuth, unsignedApiUrl, apiSecurity.secret]);
+  const shortcutUrl = !signingApiUrl ? unsignedApiUrl : signedApiUrl?.from === `${shortcutAuth}:${unsignedApiUrl}` ? signedApiUrl.url : '';
+
+  const handleSaveApiSecurity = (settings: ApiSecuritySettings) => {
+      saveApiSecurity(settings);
+      setApiSecurity(settings);
+      setApiSecurityOpen(false);
+      showToast('URL API security saved');
+  };
+
+  if (!unlocked) {
+    return <UnlockScreen queued={queuedCalls.length} onUnlock={handleUnlock} />;
+  }
+
+  // Type whose editor the Add/Edit modal shows
+  const editingNode = editingNodeId ? currentLevelNodes.find(n => n.id === editingNodeId) : undefined;
+  const editorType: DataType = editingNodeId ? (editingNode?.type ?? 'text') : newItemType;
+  const editingUsages = editingNode ? findUsages(data, editingNode.id) : [];
+  // Live preview of the formula being typed, reading other expressions' current results
+  const formulaTrace = (isAdding || editingNodeId) && editorType === 'expression'
+    ? traceExpression(String(newItemValue ?? ''), data, node => expressionResults.get(node.id) ?? evaluateExpression(String(node.value), data))
+    : null;
+  const rulesNode = rulesNodeId ? currentLevelNodes.find(n => n.id === rulesNodeId) : undefined;
+  const actionsNode = actionsNodeId ? currentLevelNodes.find(n => n.id === actionsNodeId) : undefined;
+
+  if (!loaded) {
+    return (
+      <div className="flex flex-col h-screen items-center justify-center gap-3 bg-slate-100 font-sans text-slate-500 p-6 text-center">
+          <Folder className="w-8 h-8 text-blue-600" />
+          {storageError ? (
+              <p className="text-sm text-red-600 max-w-sm">{storageError}</p>
+          ) : (
+              <p className="text-sm">Opening jar…</p>
+          )}
+      </div>
+    );
+  }
 
   return (
     <div className="flex flex-col h-screen bg-slate-100 font-sans text-slate-900 relative">
       
-      {/* Success Toast */}
-      {apiSuccess && (
-          <div className="absolute top-20 left-1/2 transform -translate-x-1/2 bg-green-600 text-white px-6 py-2 rounded-full shadow-lg z-[60] flex items-center gap-2 animate-in fade-in slide-in-from-top-4">
-              <Check className="w-4 h-4" />
-              <span className="text-sm font-medium">{apiSuccess}</span>
+      {/* Toast */}
+      {toast && (
+          <div className={`absolute top-20 left-1/2 transform -translate-x-1/2 text-white px-6 py-2 rounded-full shadow-lg z-[60] flex items-center gap-2 animate-in fade-in slide-in-from-top-4 ${toast.tone === 'error' ? 'bg-red-600' : 'bg-green-600'}`}>
+              {toast.tone === 'error' ? <AlertCircle className="w-4 h-4" /> : <Check className="w-4 h-4" />}
+              <span className="text-sm font-medium">{toast.message}</span>
           </div>
       )}
 
@@ -469,14 +1288,59 @@ export default function App() {
                     <Folder className="text-white w-5 h-5" />
                 </div>
                 <h1 className="text-lg font-bold tracking-tight">Data Jar</h1>
-                <span className="text-xs bg-slate-200 text-slate-600 px-2 py-0.5 rounded-full font-medium ml-1">Local</span>
+                <JarMenu
+                    jars={jarIndex.jars}
+                    activeId={activeJarId}
+                    onSwitch={id => switchJar(id)}
+                    onCreate={handleCreateJar}
+                    onRename={handleRenameJar}
+                    onDuplicate={handleDuplicateJar}
+                    onDelete={handleDeleteJar}
+                    onExportAll={handleExportAll}
+                    onBackupAll={handleBackupAll}
+                    onExportSchema={handleExportSchema}
+                />
+                <SyncBadge status={syncOn ? syncStatus : { phase: 'off', pending: 0 }} onClick={() => setSyncPanelOpen(true)} />
             </div>
             
             <div className="flex gap-2">
+                <button
+                    onClick={handleUndo}
+                    disabled={history.past.length === 0}
+                    className="p-2 text-slate-500 hover:bg-slate-100 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                    title={history.past.length ? `Undo: ${history.past[history.past.length - 1].label}` : 'Nothing to undo'}
+                >
+                    <Undo2 className="w-5 h-5" />
+                </button>
+                <button
+                    onClick={handleRedo}
+                    disabled={history.future.length === 0}
+                    className="p-2 text-slate-500 hover:bg-slate-100 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                    title={history.future.length ? `Redo: ${history.future[history.future.length - 1].label}` : 'Nothing to redo'}
+                >
+                    <Redo2 className="w-5 h-5" />
+                </button>
+                <button onClick={() => setHistoryPanelOpen(true)} className="p-2 text-slate-500 hover:bg-slate-100 rounded-full transition-colors" title="Snapshots">
+                    <History className="w-5 h-5" />
+                </button>
+                <button onClick={() => setActivityPanelOpen(true)} className="p-2 text-slate-500 hover:bg-slate-100 rounded-full transition-colors" title="Activity">
+                    <Activity className="w-5 h-5" />
+                </button>
+                <button
+                    onClick={() => setEncryptionPanelOpen(true)}
+                    className={`p-2 hover:bg-slate-100 rounded-full transition-colors ${encryptionConfig ? 'text-blue-600' : 'text-slate-500'}`}
+                    title={encryptionConfig ? 'Encrypted' : 'Encryption'}
+                >
+                    <Lock className="w-5 h-5" />
+                </button>
+                <div className="w-px h-6 bg-slate-200 mx-1 self-center"></div>
                 <button onClick={() => setIntegrationModalOpen(true)} className="p-2 text-slate-500 hover:bg-slate-100 rounded-full transition-colors" title="Shortcuts API">
                     <Link className="w-5 h-5" />
                 </button>
                 <div className="w-px h-6 bg-slate-200 mx-1 self-center"></div>
+                <button onClick={handleBackup} className="p-2 text-slate-500 hover:bg-slate-100 rounded-full transition-colors" title="Download Backup (.datajar)">
+                    <Archive className="w-5 h-5" />
+                </button>
                 <button onClick={handleExport} className="p-2 text-slate-500 hover:bg-slate-100 rounded-full transition-colors" title="Export JSON">
                     <Download className="w-5 h-5" />
                 </button>
@@ -487,14 +1351,32 @@ export default function App() {
         </div>
       </header>
 
+      {/* Storage error (stays until dismissed so it isn't missed) */}
+      {storageError && (
+          <div className="bg-red-50 border-b border-red-200 text-red-700">
+              <div className="flex items-center gap-2 px-4 py-2 max-w-2xl mx-auto w-full text-sm">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                  <span className="flex-1">{storageError}</span>
+                  <button onClick={() => setStorageError(null)} className="p-1 hover:bg-red-100 rounded-full" title="Dismiss">
+                      <X className="w-4 h-4" />
+                  </button>
+              </div>
+          </div>
+      )}
+
       {/* Navigation */}
       <div className="max-w-2xl mx-auto w-full bg-white border-b border-slate-200">
+         <SearchBar nodes={data} onSelect={handleSearchSelect} />
          <Breadcrumbs 
             path={path} 
             onNavigate={(index) => {
                 if (index === -1) setPath([]);
                 else setPath(path.slice(0, index + 1));
             }} 
+            onDropNode={draggedId ? (index) => {
+                handleMove(draggedId, index === -1 ? null : path[index].id);
+                setDraggedId(null);
+            } : undefined}
         />
       </div>
 
@@ -518,18 +1400,30 @@ export default function App() {
                     const isExpression = node.type === 'expression';
                     
                     // Resolve expression for display
-                    let displayValue = node.value;
-                    let exprError = null;
+                    let exprValue = '';
+                    let exprError: string | undefined;
+                    let exprCycle: string[] | undefined;
                     if (isExpression) {
-                        const { result, error } = evaluateExpression(node.value, data);
-                        displayValue = result;
-                        exprError = error;
+                        const evaluated = expressionResults.get(node.id);
+                        exprValue = evaluated ? displayResult(evaluated) : '';
+                        exprError = evaluated?.error;
+                        exprCycle = evaluated?.cycle;
                     }
 
                     return (
                         <div 
                             key={node.id} 
-                            className="group flex items-center justify-between p-4 hover:bg-slate-50 transition-colors cursor-pointer"
+                            id={`node-${node.id}`}
+                            draggable
+                            onDragStart={e => { e.dataTransfer.setData('text/plain', node.id); setDraggedId(node.id); }}
+                            onDragEnd={() => setDraggedId(null)}
+                            onDragOver={e => { if (isContainer && draggedId && draggedId !== node.id) e.preventDefault(); }}
+                            onDrop={e => {
+                                e.preventDefault();
+                                if (draggedId) handleMove(draggedId, node.id);
+                                setDraggedId(null);
+                            }}
+                            className={`group flex items-center justify-between p-4 hover:bg-slate-50 transition-colors cursor-pointer ${highlightId === node.id ? 'bg-yellow-50 ring-2 ring-inset ring-yellow-300' : ''} ${draggedId === node.id ? 'opacity-40' : ''}`}
                             onClick={() => {
                                 if (isContainer) {
                                     setPath([...path, { id: node.id, name: node.name, type: node.type }]);
@@ -554,17 +1448,51 @@ export default function App() {
                                         </span>
                                     ) : isExpression ? (
                                         <div className="flex items-center gap-2">
-                                            <span className="text-purple-600 font-bold">= {String(displayValue)}</span>
-                                            {exprError && <AlertCircle className="w-3 h-3 text-red-500" />}
+                                            <span className="text-purple-600 font-bold">= {exprValue}</span>
+                                            {exprError && (
+                                                <span title={exprError} className="flex items-center gap-1 text-red-500">
+                                                    <AlertCircle className="w-3 h-3" />
+                                                    {exprCycle && <span className="text-[10px] font-sans font-semibold uppercase">cycle</span>}
+                                                </span>
+                                            )}
                                             <span className="text-slate-300 text-xs truncate max-w-[10rem]">{node.value}</span>
                                         </div>
+                                    ) : node.type === 'url' && isSafeUrl(String(node.value)) ? (
+                                        <a
+                                            href={String(node.value)}
+                                            target="_blank"
+                                            rel="noreferrer"
+                                            onClick={e => e.stopPropagation()}
+                                            className="truncate text-blue-600 hover:underline"
+                                        >
+                                            {displayValue(node)}
+                                        </a>
+                                    ) : node.type === 'color' ? (
+                                        <div className="flex items-center gap-2">
+                                            <span className="w-3.5 h-3.5 rounded border border-slate-200 flex-shrink-0" style={{ backgroundColor: String(node.value) }} />
+                                            <span className="truncate">{displayValue(node)}</span>
+                                        </div>
                                     ) : (
-                                        <span className="truncate">{String(node.value)}</span>
+                                        <span className={`truncate ${node.type === 'null' ? 'italic text-slate-400' : ''}`}>{displayValue(node)}</span>
                                     )}
                                 </div>
                             </div>
 
                             <div className="flex items-center gap-2">
+                                <button
+                                    onClick={(e) => { e.stopPropagation(); setActionsNodeId(node.id); }}
+                                    className="p-2 text-slate-300 hover:text-slate-500 hover:bg-slate-100 rounded-full opacity-0 group-hover:opacity-100 transition-all"
+                                    title="Rename, convert, duplicate or move"
+                                >
+                                    <MoreHorizontal className="w-4 h-4" />
+                                </button>
+                                <button
+                                    onClick={(e) => { e.stopPropagation(); setRulesNodeId(node.id); }}
+                                    className={`p-2 rounded-full hover:bg-slate-100 transition-all ${hasRules(node.rules) ? 'text-blue-500' : 'text-slate-300 hover:text-slate-500 opacity-0 group-hover:opacity-100'}`}
+                                    title={hasRules(node.rules) ? 'Edit rules' : 'Add rules'}
+                                >
+                                    <ShieldCheck className="w-4 h-4" />
+                                </button>
                                 <button 
                                     onClick={(e) => handleDelete(node.id, e)}
                                     className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-full opacity-0 group-hover:opacity-100 transition-all"
@@ -640,11 +1568,11 @@ export default function App() {
                     {!editingNodeId && (
                         <div>
                             <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1.5">Type</label>
-                            <div className="grid grid-cols-3 gap-2">
-                                {(['text', 'number', 'boolean', 'dictionary', 'list', 'expression'] as DataType[]).map(t => (
+                            <div className="grid grid-cols-4 gap-2">
+                                {DATA_TYPES.map(t => (
                                     <button
                                         key={t}
-                                        onClick={() => { setNewItemType(t); setNewItemValue(''); }}
+                                        onClick={() => { setNewItemType(t); setNewItemValue(defaultValue(t)); }}
                                         className={`flex flex-col items-center justify-center gap-1 py-3 rounded-lg border text-xs font-medium transition-all ${
                                             newItemType === t 
                                             ? 'bg-blue-50 border-blue-500 text-blue-700 ring-1 ring-blue-500' 
@@ -652,7 +1580,7 @@ export default function App() {
                                         }`}
                                     >
                                         <IconForType type={t} />
-                                        <span className="capitalize">{t}</span>
+                                        <span>{TYPE_LABELS[t]}</span>
                                     </button>
                                 ))}
                             </div>
@@ -660,13 +1588,13 @@ export default function App() {
                     )}
 
                     {/* Value Editor */}
-                    {!['dictionary', 'list'].includes(editingNodeId ? (currentLevelNodes.find(n => n.id === editingNodeId)?.type || 'text') : newItemType) && (
+                    {!['dictionary', 'list'].includes(editorType) && (
                         <div className="animate-in fade-in zoom-in-95 duration-200">
                             <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1.5">
-                                {(editingNodeId ? (currentLevelNodes.find(n => n.id === editingNodeId)?.type) : newItemType) === 'expression' ? 'Formula' : 'Value'}
+                                {editorType === 'expression' ? 'Formula' : 'Value'}
                             </label>
                             
-                            {(editingNodeId ? (currentLevelNodes.find(n => n.id === editingNodeId)?.type) : newItemType) === 'boolean' ? (
+                            {editorType === 'boolean' ? (
                                 <div className="flex bg-slate-100 p-1 rounded-lg">
                                     <button 
                                         className={`flex-1 py-2 rounded-md text-sm font-medium transition-all ${newItemValue === true ? 'bg-white shadow text-blue-600' : 'text-slate-500 hover:text-slate-700'}`}
@@ -681,35 +1609,62 @@ export default function App() {
                                         False
                                     </button>
                                 </div>
+                            ) : editorType === 'expression' ? (
+                                <FormulaEditor
+                                    value={String(newItemValue ?? '')}
+                                    onChange={setNewItemValue}
+                                    nodes={data}
+                                    unknown={formulaTrace?.steps.filter(step => step.missing) ?? []}
+                                />
+                            ) : !['text', 'number'].includes(editorType) ? (
+                                <ValueEditor type={editorType} value={newItemValue} onChange={setNewItemValue} />
                             ) : (
-                                <div className="relative">
-                                    <textarea
-                                        className={`w-full px-3 py-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all font-mono text-sm ${
-                                            (editingNodeId ? (currentLevelNodes.find(n => n.id === editingNodeId)?.type) : newItemType) === 'expression' ? 'text-purple-700 bg-purple-50/50 border-purple-200 focus:border-purple-500 focus:ring-purple-500/20' : ''
-                                        }`}
-                                        rows={3}
-                                        placeholder={(editingNodeId ? (currentLevelNodes.find(n => n.id === editingNodeId)?.type) : newItemType) === 'expression' ? '{{key}} + 10' : 'Value...'}
-                                        value={newItemValue}
-                                        onChange={e => setNewItemValue(e.target.value)}
-                                    />
-                                    {(editingNodeId ? (currentLevelNodes.find(n => n.id === editingNodeId)?.type) : newItemType) === 'expression' && (
-                                        <div className="absolute top-2 right-2">
-                                            <div className="bg-white/80 backdrop-blur rounded px-2 py-1 text-[10px] font-bold text-purple-600 shadow-sm border border-purple-100">
-                                                EXP
-                                            </div>
-                                        </div>
-                                    )}
-                                </div>
+                                <textarea
+                                    className="w-full px-3 py-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all font-mono text-sm"
+                                    rows={3}
+                                    placeholder="Value..."
+                                    value={newItemValue}
+                                    onChange={e => setNewItemValue(e.target.value)}
+                                />
                             )}
+
+                            {formulaTrace && <TracePanel formula={String(newItemValue ?? '')} trace={formulaTrace} />}
                             
-                            {(editingNodeId ? (currentLevelNodes.find(n => n.id === editingNodeId)?.type) : newItemType) === 'expression' && (
+                            {editorType === 'expression' && (
                                 <p className="mt-2 text-xs text-slate-400">
-                                    Reference other keys using <code className="bg-slate-100 px-1 rounded">{`{{keyName}}`}</code>. Supports basic math.
+                                    Reference other keys using <code className="bg-slate-100 px-1 rounded">{`{{keyName}}`}</code>, list items with <code className="bg-slate-100 px-1 rounded">{`{{items[0]}}`}</code> or <code className="bg-slate-100 px-1 rounded">{`{{items[-1]}}`}</code> and keys with dots as <code className="bg-slate-100 px-1 rounded">{`{{["first.name"]}}`}</code>. <code className="bg-slate-100 px-1 rounded">{`{{expenses.*.amount}}`}</code> reads every item, for <code className="bg-slate-100 px-1 rounded">sum()</code>, <code className="bg-slate-100 px-1 rounded">count()</code>, <code className="bg-slate-100 px-1 rounded">join()</code> or <code className="bg-slate-100 px-1 rounded">{`filter({{expenses}}, {{@.amount}} > 10)`}</code>. Supports math, <code className="bg-slate-100 px-1 rounded">"text" + {`{{key}}`}</code>, comparisons, <code className="bg-slate-100 px-1 rounded">? :</code> and functions like <code className="bg-slate-100 px-1 rounded">round()</code> and <code className="bg-slate-100 px-1 rounded">if()</code>.
                                 </p>
                             )}
+
+                            {editingNode?.rules && (editingNode.rules.allowed?.length || editingNode.rules.default !== undefined) && (
+                                <div className="mt-2 flex flex-wrap items-center gap-1.5 text-xs">
+                                    {editingNode.rules.allowed?.map(option => (
+                                        <button
+                                            key={option}
+                                            onClick={() => setNewItemValue(option)}
+                                            className={`px-2 py-0.5 rounded-full border ${String(newItemValue) === option ? 'bg-blue-50 border-blue-300 text-blue-700' : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+                                        >
+                                            {option}
+                                        </button>
+                                    ))}
+                                    {editingNode.rules.default !== undefined && (
+                                        <button onClick={() => setNewItemValue(editingNode.rules?.default)} className="ml-auto text-blue-600 hover:underline">
+                                            Reset to default
+                                        </button>
+                                    )}
+                                </div>
+                            )}
                         </div>
                     )}
 
+                    {editingUsages.length > 0 && (
+                        <UsedByList usages={editingUsages} onJump={handleJumpTo} />
+                    )}
+
+                    {editingNode && (
+                        <NodeHistory key={editingNode.id} entries={changeLog.filter(entry => entry.nodeId === editingNode.id)} />
+                    )}
+
                     <button 
                         onClick={editingNodeId ? () => handleUpdateValue(editingNodeId, newItemValue) : handleAdd}
                         className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 rounded-lg shadow-lg shadow-blue-600/20 active:scale-[0.98] transition-all"
@@ -721,6 +1676,33 @@ export default function App() {
         </div>
       )}
 
+      {/* Node Actions */}
+      {actionsNode && (
+          <NodeActions
+              key={actionsNode.id}
+              node={actionsNode}
+              inList={inList}
+              targets={moveTargets(actionsNode)}
+              usages={findUsages(data, actionsNode.id)}
+              onJump={handleJumpTo}
+              onRename={name => handleRename(actionsNode.id, name)}
+              onConvert={type => handleConvert(actionsNode.id, type)}
+              onDuplicate={() => handleDuplicate(actionsNode.id)}
+              onMove={targetId => handleMove(actionsNode.id, targetId)}
+              onClose={() => setActionsNodeId(null)}
+          />
+      )}
+
+      {/* Rules Panel */}
+      {rulesNode && (
+          <RulesPanel
+              key={rulesNode.id}
+              node={rulesNode}
+              onSave={rules => handleSaveRules(rulesNode.id, rules)}
+              onClose={() => setRulesNodeId(null)}
+          />
+      )}
+
       {/* Integration Modal (Shortcuts API) */}
       {integrationModalOpen && (
           <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
@@ -733,52 +1715,144 @@ export default function App() {
                       <p className="text-slate-300 text-sm">
                           Trigger this web app from Apple Shortcuts using the <strong>Open URL</strong> action.
                       </p>
+                      <button onClick={() => setApiSecurityOpen(true)} className="mt-3 flex items-center gap-1 text-xs text-slate-300 hover:text-white">
+                          <ShieldCheck className="w-3.5 h-3.5" />
+                          {apiSecurity.secret ? 'Security settings' : 'Protect against untrusted links'}
+                          {rejectedCalls.length > 0 && <span className="ml-1 px-1.5 rounded-full bg-red-500 text-white">{rejectedCalls.length}</span>}
+                      </button>
                   </div>
                   
                   <div className="p-6 space-y-5">
                       <div>
                           <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">1. Configure Payload</label>
                           <div className="space-y-3">
+                              <div>
+                                <select
+                                    className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm"
+                                    value={shortcutAction}
+                                    onChange={e => setShortcutAction(e.target.value as ApiAction)}
+                                >
+                                    {API_ACTIONS.map(action => (
+                                        <option key={action} value={action}>{action}</option>
+                                    ))}
+                                </select>
+                                <p className="mt-1 text-xs text-slate-400">{ACTION_DESCRIPTIONS[shortcutAction]}</p>
+                              </div>
+                              <select
+                                  className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm"
+                                  value={shortcutJar}
+                                  onChange={e => setShortcutJar(e.target.value)}
+                              >
+                                  <option value="">Whichever jar is open</option>
+                                  {jarIndex.jars.map(jar => (
+                                      <option key={jar.id} value={jar.name}>Jar: {jar.name}</option>
+                                  ))}
+                              </select>
                               <input 
                                   type="text"
-                                  placeholder="Key Path (e.g. config.theme)"
+                                  placeholder="Key Path (e.g. config.theme or items[0])"
                                   className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm"
                                   value={shortcutKey}
                                   onChange={e => setShortcutKey(e.target.value)}
                               />
-                              <div className="flex gap-2">
-                                <select 
-                                    className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm"
-                                    value={shortcutType}
-                                    onChange={e => setShortcutType(e.target.value as DataType)}
-                                >
-                                    <option value="text">Text</option>
-                                    <option value="number">Number</option>
-                                    <option value="boolean">Boolean</option>
-                                </select>
-                                <input 
-                                    type="text"
-                                    placeholder="Value"
-                                    className="flex-1 px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm"
-                                    value={shortcutValue}
-                                    onChange={e => setShortcutValue(e.target.value)}
-                                />
-                              </div>
+                              {actionTakesValue(shortcutAction) && (
+                                <div className="flex gap-2">
+                                  {actionTakesType(shortcutAction) && (
+                                    <select 
+                                        className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm"
+                                        value={shortcutType}
+                                        onChange={e => setShortcutType(e.target.value as DataType)}
+                                    >
+                                        {DATA_TYPES.filter(t => t !== 'expression').map(t => (
+                                            <option key={t} value={t}>{TYPE_LABELS[t]}</option>
+                                        ))}
+                                    </select>
+                                  )}
+                                  <input 
+                                      type="text"
+                                      placeholder={shortcutAction === 'merge' ? '{"key": "value"}' : shortcutAction === 'increment' || shortcutAction === 'decrement' ? 'Amount (default 1)' : 'Value'}
+                                      className="flex-1 px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm"
+                                      value={shortcutValue}
+                                      onChange={e => setShortcutValue(e.target.value)}
+                                  />
+                                </div>
+                              )}
+                              {isReadAction(shortcutAction) && (
+                                <div className="space-y-2">
+                                  {(['success', 'error', 'cancel'] as const).map(kind => (
+                                    <input
+                                        key={kind}
+                                        type="text"
+                                        placeholder={`x-${kind} (optional)`}
+                                        className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm font-mono"
+                                        value={shortcutCallbacks[kind] ?? ''}
+                                        onChange={e => setShortcutCallbacks({ ...shortcutCallbacks, [kind]: e.target.value })}
+                                    />
+                                  ))}
+                                </div>
+                              )}
+                              {!isReadAction(shortcutAction) && (
+                                <div className="flex justify-end">
+                                  <button
+                                      onClick={addToBatch}
+                                      disabled={!shortcutKey}
+                                      className="flex items-center gap-1 text-xs font-semibold px-3 py-1.5 rounded-md text-slate-600 hover:bg-slate-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                                  >
+                                      <ListPlus className="w-3.5 h-3.5" /> Add to batch
+                                  </button>
+                                </div>
+                              )}
+                              {shortcutBatch.length > 0 && (
+                                <div className="rounded-lg border border-slate-200 divide-y divide-slate-100">
+                                  <div className="flex items-center justify-between px-3 py-1.5 text-xs font-bold text-slate-500 uppercase tracking-wider">
+                                      Batch ({shortcutBatch.length})
+                                      <button onClick={() => setShortcutBatch([])} className="normal-case font-medium text-blue-600 hover:underline">Clear</button>
+                                  </div>
+                                  {shortcutBatch.map((op, index) => (
+                                    <div key={index} className="flex items-center gap-2 px-3 py-1.5 text-xs">
+                                        <span className="font-semibold text-slate-600">{op.action}</span>
+                                        <code className="font-mono text-slate-700 truncate">{op.key}</code>
+                                        {actionTakesValue(op.action as ApiAction) && op.value && <span className="text-slate-400 truncate">= {op.value}</span>}
+                                        <button
+                                            onClick={() => setShortcutBatch(shortcutBatch.filter((_op, i) => i !== index))}
+                                            className="ml-auto p-0.5 text-slate-400 hover:text-red-500"
+                                        >
+                                            <X className="w-3.5 h-3.5" />
+                                        </button>
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
                           </div>
                       </div>
 
                       <div>
-                          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">2. Generated URL</label>
+                          <div className="flex items-center justify-between mb-2">
+                              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider">2. Generated URL</label>
+                              {apiSecurity.secret ? (
+                                <select
+                                    className="text-xs bg-transparent text-slate-500 focus:outline-none"
+                                    value={shortcutAuth}
+                                    onChange={e => setShortcutAuth(e.target.value as 'sign' | 'token' | 'none')}
+                                >
+                                    <option value="sign">Signed</option>
+                                    <option value="token">With token</option>
+                                    <option value="none">Unsigned</option>
+                                </select>
+                              ) : (
+                                <button onClick={() => setApiSecurityOpen(true)} className="text-xs text-blue-600 hover:underline">Set up signed links</button>
+                              )}
+                          </div>
                           <div className="flex items-center gap-2 bg-slate-100 p-3 rounded-lg border border-slate-200">
                               <code className="flex-1 text-xs text-slate-600 break-all font-mono whitespace-nowrap overflow-x-auto">
-                                  {generateApiUrl()}
+                                  {shortcutUrl || 'Signing…'}
                               </code>
                               <button 
                                 onClick={() => {
-                                    navigator.clipboard.writeText(generateApiUrl());
-                                    setApiSuccess("Copied to clipboard!");
-                                    setTimeout(() => setApiSuccess(null), 2000);
+                                    navigator.clipboard.writeText(shortcutUrl);
+                                    showToast("Copied to clipboard!", 'success', 2000);
                                 }}
+                                disabled={!shortcutUrl}
                                 className="p-2 hover:bg-white rounded-md text-slate-500 hover:text-blue-600 transition-colors"
                               >
                                   <Copy className="w-4 h-4" />
@@ -788,8 +1862,10 @@ export default function App() {
                           {/* Test Button Added Here */}
                           <div className="mt-3 flex justify-end">
                             <button
-                                onClick={() => handleApiTrigger(shortcutKey, shortcutValue, shortcutType)}
-                                disabled={!shortcutKey}
+                                onClick={() => handleApiTrigger(shortcutBatch.length > 0
+                                    ? { action: 'batch', key: '', value: '', type: '', ops: encodeBatchOps(shortcutBatch) }
+                                    : { action: shortcutAction, key: shortcutKey, value: shortcutValue, type: shortcutType })}
+                                disabled={!shortcutKey && shortcutBatch.length === 0}
                                 className="flex items-center gap-2 text-xs font-semibold px-3 py-2 rounded-md bg-blue-100 text-blue-700 hover:bg-blue-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                             >
                                 <Play className="w-3 h-3 fill-current" />
@@ -799,7 +1875,15 @@ export default function App() {
                       </div>
 
                       <div className="bg-blue-50 border border-blue-100 rounded-lg p-3 text-xs text-blue-800">
-                          <strong>How to use:</strong> In Apple Shortcuts, add the "Open URL" action and paste the link above. When the shortcut runs, it will open this app and apply the changes automatically.
+                          {isReadAction(shortcutAction) ? (
+                              <>
+                                  <strong>How to use:</strong> In Apple Shortcuts, add the "Open X-Callback URL" action and paste the link above. Shortcuts fills in <code>x-success</code>, <code>x-error</code> and <code>x-cancel</code> itself; the value comes back as <code>result</code> (JSON for dictionaries and lists), and failures as <code>errorCode</code> / <code>errorMessage</code>. A signed link covers its callbacks too, so for one use the plain "Open URL" action with the callbacks entered above; callbacks Shortcuts adds would break the signature. A link that is neither signed nor carries the token can only send its value back to a <code>shortcuts://</code> callback.
+                              </>
+                          ) : (
+                              <>
+                                  <strong>How to use:</strong> In Apple Shortcuts, add the "Open URL" action and paste the link above. When the shortcut runs, it will open this app and apply the changes automatically. A batch applies all of its changes from one link, or none of them if any fails. A signed link stops working if any of its keys, values or callbacks is edited; use "With token" when Shortcuts fills them in as it runs.
+                              </>
+                          )}
                       </div>
                   </div>
 
@@ -812,31 +1896,180 @@ export default function App() {
           </div>
       )}
 
+      {/* Encryption Panel */}
+      {encryptionPanelOpen && (
+          <EncryptionPanel
+              enabled={encryptionConfig !== null}
+              syncOn={syncSettings !== null}
+              autoLockMinutes={encryptionConfig?.autoLockMinutes ?? 0}
+              onEnable={passphrase => changeEncryption(adapter => enableEncryption(passphrase, adapter), 'Encryption turned on')}
+              onChangePassphrase={(current, next) => changeEncryption(adapter => changePassphrase(current, next, adapter), 'Passphrase changed')}
+              onDisable={current => changeEncryption(adapter => disableEncryption(current, adapter), 'Encryption turned off')}
+              onAutoLockChange={minutes => {
+                  updateAutoLock(minutes);
+                  setEncryptionConfig(loadEncryptionConfig());
+              }}
+              onLockNow={handleLock}
+              onClose={() => setEncryptionPanelOpen(false)}
+          />
+      )}
+
+      {/* URL API Security Panel */}
+      {apiSecurityOpen && (
+          <ApiSecurityPanel
+              settings={apiSecurity}
+              rejected={rejectedCalls}
+              onSave={handleSaveApiSecurity}
+              onClearLog={() => {
+                  clearRejectedCalls();
+                  setRejectedCalls([]);
+              }}
+              onClose={() => setApiSecurityOpen(false)}
+          />
+      )}
+
+      {/* Sync Panel */}
+      {syncPanelOpen && (
+          <SyncPanel
+              settings={syncSettings}
+              status={syncStatus}
+              encrypted={encryptionConfig !== null}
+              onSave={handleSaveSyncSettings}
+              onSyncNow={() => runSync()}
+              onClose={() => setSyncPanelOpen(false)}
+          />
+      )}
+
+      {/* Activity Panel */}
+      {activityPanelOpen && (
+          <ActivityPanel
+              entries={changeLog}
+              settings={changeLogSettings}
+              onChangeSettings={handleChangeLogSettings}
+              onExport={handleExportChanges}
+              onClose={() => setActivityPanelOpen(false)}
+          />
+      )}
+
+      {/* Snapshots Panel */}
+      {historyPanelOpen && (
+          <HistoryPanel
+              snapshots={snapshots}
+              current={data}
+              onCreate={label => { takeSnapshot(label, 'manual'); showToast(`Saved snapshot "${label}"`); }}
+              onDelete={id => updateSnapshots(prev => prev.filter(s => s.id !== id))}
+              onPrune={() => updateSnapshots(prev => pruneSnapshots(prev))}
+              onRestore={(label, restored) => {
+                  commitData(`Restore snapshot "${label}"`, () => restored, 'restore');
+                  showToast(`Restored "${label}"`);
+              }}
+              onClose={() => setHistoryPanelOpen(false)}
+          />
+      )}
+
       {/* Import Modal */}
       {importModalOpen && (
           <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
               <div className="bg-white w-full max-w-lg rounded-2xl shadow-2xl p-6">
-                  <h3 className="text-lg font-bold text-slate-800 mb-2">Import JSON</h3>
-                  <p className="text-slate-500 text-sm mb-4">Paste JSON content here to replace your jar.</p>
-                  <textarea 
-                    className="w-full h-40 bg-slate-50 border border-slate-200 rounded-lg p-3 font-mono text-xs mb-4 focus:ring-2 focus:ring-blue-500/20 focus:outline-none"
-                    value={jsonInput}
-                    onChange={(e) => setJsonInput(e.target.value)}
-                    placeholder='{"key": "value"}'
-                  />
-                  <div className="flex gap-3">
-                      <button onClick={() => setImportModalOpen(false)} className="flex-1 py-2 text-slate-600 hover:bg-slate-100 rounded-lg font-medium">Cancel</button>
-                      <button onClick={() => {
-                          try {
-                              const parsed = JSON.parse(jsonInput);
-                              setData(parseImport(parsed));
-                              setImportModalOpen(false);
-                              setJsonInput('');
-                          } catch(e) {
-                              alert("Invalid JSON");
-                          }
-                      }} className="flex-1 py-2 bg-blue-600 text-white rounded-lg font-medium shadow-lg shadow-blue-600/20">Import</button>
-                  </div>
+                  {importPreview ? (
+                      <>
+                          <h3 className="text-lg font-bold text-slate-800 mb-2">Review Import</h3>
+                          <p className="text-slate-500 text-sm mb-4">
+                              {importPreview.entries.length === 0
+                                  ? 'This import would not change anything.'
+                                  : 'Untick any change you want to skip. Skipped changes keep the current value.'}
+                          </p>
+                          {importPreview.entries.length > 0 && (
+                              <DiffList
+                                  entries={importPreview.entries}
+                                  isSelected={index => !importRejected.includes(index)}
+                                  onToggle={index => setImportRejected(importRejected.includes(index)
+                                      ? importRejected.filter(i => i !== index)
+                                      : [...importRejected, index])}
+                              />
+                          )}
+                          {importPreview.warnings.length > 0 && (
+                              <details className="mb-4">
+                                  <summary className="text-xs font-semibold text-amber-700 cursor-pointer">
+                                      {importPreview.warnings.length} value{importPreview.warnings.length === 1 ? ' was' : 's were'} coerced
+                                  </summary>
+                                  <ul className="mt-2 max-h-32 overflow-y-auto bg-amber-50 border border-amber-100 rounded-lg divide-y divide-amber-100">
+                                      {importPreview.warnings.map((warning, index) => (
+                                          <li key={index} className="px-3 py-2 text-xs text-amber-900">
+                                              <code className="font-mono font-semibold">{warning.path}</code>
+                                              <span className="block opacity-80">{warning.message}</span>
+                                          </li>
+                                      ))}
+                                  </ul>
+                              </details>
+                          )}
+                          <div className="flex gap-3">
+                              <button onClick={() => setImportPreview(null)} className="flex-1 py-2 text-slate-600 hover:bg-slate-100 rounded-lg font-medium">Back</button>
+                              <button
+                                  onClick={handleApplyImport}
+                                  disabled={importPreview.entries.length === importRejected.length}
+                                  className="flex-1 py-2 bg-blue-600 text-white rounded-lg font-medium shadow-lg shadow-blue-600/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                  Apply {importPreview.entries.length - importRejected.length} change{importPreview.entries.length - importRejected.length === 1 ? '' : 's'}
+                              </button>
+                          </div>
+                      </>
+                  ) : (
+                      <>
+                          <h3 className="text-lg font-bold text-slate-800 mb-2">Import JSON</h3>
+                          <p className="text-slate-500 text-sm mb-4">
+                              Paste JSON or a <code className="bg-slate-100 px-1 rounded">{BACKUP_EXTENSION}</code> backup here.
+                              Backups restore exactly, including formulas and types.
+                          </p>
+                          <label className="inline-flex items-center gap-2 text-xs font-semibold text-blue-600 hover:text-blue-700 cursor-pointer mb-2">
+                              <Upload className="w-3.5 h-3.5" />
+                              Choose file…
+                              <input type="file" accept={`${BACKUP_EXTENSION},.json,application/json`} className="hidden" onChange={handleImportFile} />
+                          </label>
+                          <textarea 
+                            className="w-full h-40 bg-slate-50 border border-slate-200 rounded-lg p-3 font-mono text-xs mb-4 focus:ring-2 focus:ring-blue-500/20 focus:outline-none"
+                            value={jsonInput}
+                            onChange={(e) => setJsonInput(e.target.value)}
+                            placeholder='{"key": "value"}'
+                          />
+                          <div className="space-y-1.5 mb-4">
+                              {IMPORT_MODES.map(({ mode, label, description }) => {
+                                  const disabled = mode === 'into-current' && path.length === 0;
+                                  return (
+                                      <label key={mode} className={`flex items-start gap-2 text-sm ${disabled ? 'opacity-40' : 'cursor-pointer'}`}>
+                                          <input
+                                              type="radio"
+                                              name="import-mode"
+                                              className="mt-1"
+                                              checked={importMode === mode}
+                                              disabled={disabled}
+                                              onChange={() => setImportMode(mode)}
+                                          />
+                                          <span>
+                                              <span className="font-medium text-slate-700">
+                                                  {label}
+                                                  {mode === 'into-current' && path.length > 0 && (
+                                                      <code className="ml-1 text-xs text-slate-500">{currentPath}</code>
+                                                  )}
+                                              </span>
+                                              <span className="block text-xs text-slate-400">{description}</span>
+                                          </span>
+                                      </label>
+                                  );
+                              })}
+                          </div>
+                          <div className="flex gap-3">
+                              <button onClick={closeImportModal} className="flex-1 py-2 text-slate-600 hover:bg-slate-100 rounded-lg font-medium">Cancel</button>
+                              <button
+                                  onClick={handleImport}
+                                  disabled={importMode === 'into-current' && path.length === 0}
+                                  className="flex-1 py-2 bg-blue-600 text-white rounded-lg font-medium shadow-lg shadow-blue-600/20 disabled:opacity-50"
+                              >
+                                  Preview
+                              </button>
+                          </div>
+                      </>
+                  )}
               </div>
           </div>
       )}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import type { DataNode } from './types';
+import { addToken, checkWritePermissions, readCredentials, signUrl, verifyCredentials, type ApiSecuritySettings } from './apiSecurity';
+import { applyApiBatch, ApiError, type ApiRequest } from './urlApi';
+
+const settings: ApiSecuritySettings = { secret: 'secret', unsigned: 'reject', writablePrefixes: [] };
+
+const items: DataNode = {
+  id: 'items',
+  name: 'items',
+  type: 'list',
+  value: [
+    { id: 'a', name: '0', type: 'text', value: 'free' },
+    { id: 'b', name: '1', type: 'text', value: 'locked', rules: { readOnly: true } },
+  ],
+};
+
+const permit = (nodes: DataNode[], op: ApiRequest) => checkWritePermissions(nodes, [op], settings);
+
+const credentialsOf = (url: string) => readCredentials(new URL(url).searchParams);
+
+describe('checkWritePermissions in a batch', () => {
+  it('refuses a read-only item that earlier operations moved', () => {
+    const ops: ApiRequest[] = [
+      { action: 'delete', key: 'items[0]', value: '', type: 'text' },
+      { action: 'set', key: 'items[0]', value: 'pwned', type: 'text' },
+    ];
+    expect(() => applyApiBatch([items], ops, permit)).toThrow(/read-only/);
+  });
+
+  it('lets writes elsewhere through', () => {
+    const { nodes } = applyApiBatch([items], [{ action: 'set', key: 'items[0]', value: 'changed', type: 'text' }], permit);
+    expect((nodes[0].value as DataNode[])[0].value).toBe('changed');
+  });
+
+  it('keeps writes inside the writable prefixes', () => {
+    const limited = { ...settings, writablePrefixes: ['inbox'] };
+    expect(() => checkWritePermissions([items], [{ action: 'set', key: 'items[0]', value: 'x', type: 'text' }], limited)).toThrow(ApiError);
+    expect(() => checkWritePermissions([items], [{ action: 'set', key: 'inbox.note', value: 'x', type: 'text' }], limited)).not.toThrow();
+  });
+});
+
+describe('verifyCredentials', () => {
+  it('accepts a signed link and refuses it once edited', async () => {
+    const url = await signUrl('https://jar.example/?key=a&value=1&action=set', settings.secret);
+    expect(await verifyCredentials(settings, credentialsOf(url))).toBe(true);
+    await expect(verifyCredentials(settings, credentialsOf(url.replace('value=1', 'value=2')))).rejects.toThrow(/signature/);
+  });
+
+  it('accepts the derived token but never the secret itself', async () => {
+    const url = await addToken('https://jar.example/?key=a&action=get', settings.secret);
+    expect(url).not.toContain(settings.secret);
+    expect(await verifyCredentials(settings, credentialsOf(url))).toBe(true);
+    await expect(verifyCredentials(settings, credentialsOf(`https://jar.example/?key=a&token=${settings.secret}`))).rejects.toThrow(/token/);
+  });
+
+  it('reports a link with neither as unsigned', async () => {
+    expect(await verifyCredentials(settings, credentialsOf('https://jar.example/?key=a'))).toBe(false);
+  });
+});
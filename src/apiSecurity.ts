@@ -0,0 +1,198 @@
+import type { DataNode } from './types';
+import { resolvePath } from './tree';
+import { formatPath, invalidPath, parsePath, type PathStep } from './paths';
+import { ApiError, type ApiRequest } from './urlApi';
+
+// --- URL API Security ---
+//
+// Any page can link to the app with a query string, so URL API calls are only
+// trusted when they prove they came from the owner's Shortcuts: either the
+// link is signed (`sig=`, an HMAC-SHA256 of its other parameters) or it
+// carries a token derived from the secret (`token=`, for links whose values
+// Shortcuts fills in at run time and so can't be signed ahead). The secret
+// itself never goes in a link. What happens to calls without
+// either is a setting. Whatever their origin, writes must stay inside the
+// writable prefixes and away from read-only keys.
+
+export type UnsignedPolicy = 'allow' | 'confirm' | 'reject';
+
+export interface ApiSecuritySettings {
+  secret: string; // '' until one is generated
+  unsigned: UnsignedPolicy;
+  writablePrefixes: string[]; // Empty means anywhere
+}
+
+export const UNSIGNED_POLICIES: { policy: UnsignedPolicy, label: string, description: string }[] = [
+  { policy: 'allow', label: 'Allow', description: 'Any link can read and change the jar' },
+  { policy: 'confirm', label: 'Ask first', description: 'Show what an unsigned link wants to do and wait for a yes' },
+  { policy: 'reject', label: 'Reject', description: 'Only signed links or links with the token work' },
+];
+
+const SETTINGS_KEY = 'data-jar-api-security';
+const LOG_KEY = 'data-jar-api-log';
+const LOG_LIMIT = 50;
+
+const defaultSettings = (): ApiSecuritySettings => ({ secret: '', unsigned: 'allow', writablePrefixes: [] });
+
+export const loadApiSecurity = (): ApiSecuritySettings => {
+  const saved = localStorage.getItem(SETTINGS_KEY);
+  if (!saved) return defaultSettings();
+  try {
+    const parsed = JSON.parse(saved);
+    return {
+      secret: typeof parsed.secret === 'string' ? parsed.secret : '',
+      unsigned: UNSIGNED_POLICIES.some(p => p.policy === parsed.unsigned) ? parsed.unsigned : 'allow',
+      writablePrefixes: Array.isArray(parsed.writablePrefixes) ? parsed.writablePrefixes.filter((p: unknown) => typeof p === 'string') : [],
+    };
+  } catch (e) {
+    console.error("Failed to load URL API security settings", e);
+  }
+  return defaultSettings();
+};
+
+export const saveApiSecurity = (settings: ApiSecuritySettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// --- Signing ---
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join('')).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const generateSecret = () => toBase64Url(crypto.getRandomValues(new Uint8Array(24)));
+
+// Left out of the signature: the proofs themselves
+const UNSIGNED_PARAMS = ['sig', 'token'];
+
+// The signed text: every other parameter, sorted, so no key, value, action or
+// callback can be altered without breaking the signature. That includes where
+// a read sends its result, so a signed link that leaks can't be redirected.
+// Callbacks added by Shortcuts' "Open X-Callback URL" action therefore break
+// a signature; signed reads name theirs in the builder instead.
+const canonicalParams = (params: URLSearchParams): string =>
+  [...params]
+    .filter(([name]) => !UNSIGNED_PARAMS.includes(name))
+    .sort(([a, av], [b, bv]) => (a === b ? (av < bv ? -1 : av > bv ? 1 : 0) : a < b ? -1 : 1))
+    .map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(value)}`)
+    .join('&');
+
+const hmac = async (secret: string, text: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toBase64Url(new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(text))));
+};
+
+// Compare without stopping at the first difference
+const sameText = (a: string, b: string) => {
+  let difference = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) difference |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  return difference === 0;
+};
+
+export const signUrl = async (url: string, secret: string): Promise<string> => {
+  const parsed = new URL(url);
+  parsed.searchParams.delete('sig');
+  parsed.searchParams.append('sig', await hmac(secret, canonicalParams(parsed.searchParams)));
+  return parsed.toString();
+};
+
+// A leaked token link grants what any token does, but can't be used to sign others
+const TOKEN_LABEL = 'data-jar-url-api-token';
+const deriveToken = (secret: string) => hmac(secret, TOKEN_LABEL);
+
+export const addToken = async (url: string, secret: string): Promise<string> => {
+  const parsed = new URL(url);
+  parsed.searchParams.delete('token');
+  parsed.searchParams.append('token', await deriveToken(secret));
+  return parsed.toString();
+};
+
+// What a link offered as proof, captured when it is read
+export interface ApiCredentials {
+  sig?: string;
+  token?: string;
+  signed: string; // canonicalParams of the link
+}
+
+export const readCredentials = (params: URLSearchParams): ApiCredentials => ({
+  sig: params.get('sig') || undefined,
+  token: params.get('token') || undefined,
+  signed: canonicalParams(params),
+});
+
+// True for a valid signature or token, false for a link with neither. A wrong
+// one is never quietly downgraded to unsigned: it throws.
+export const verifyCredentials = async (settings: ApiSecuritySettings, credentials: ApiCredentials): Promise<boolean> => {
+  if (!credentials.sig && !credentials.token) return false;
+  if (!settings.secret) throw new ApiError('unauthorized', 'This link is signed, but no URL API secret is set up here');
+  if (credentials.sig && sameText(credentials.sig, await hmac(settings.secret, credentials.signed))) return true;
+  if (credentials.token && sameText(credentials.token, await deriveToken(settings.secret))) return true;
+  throw new ApiError('unauthorized', credentials.sig ? 'The link signature does not match' : 'The link token is wrong');
+};
+
+// --- Permissions ---
+
+// List positions and digit-only names compare alike, so items.0 is within items[0]
+const stepText = (step: PathStep) => (step.kind === 'index' ? String(step.index) : step.kind === 'wildcard' ? '*' : step.name);
+
+const isWithin = (steps: PathStep[], prefix: string) => {
+  const keySteps = steps.map(stepText);
+  const prefixSteps = parsePath(prefix).map(stepText);
+  return prefixSteps.length <= keySteps.length && prefixSteps.every((step, index) => step === keySteps[index]);
+};
+
+const containsReadOnly = (node: DataNode): boolean =>
+  !!node.rules?.readOnly || ((node.type === 'dictionary' || node.type === 'list') && (node.value as DataNode[]).some(containsReadOnly));
+
+// Actions that can replace or remove what's below the key, not just the key itself
+const REPLACING_ACTIONS = ['set', 'delete', 'merge'];
+
+// Throws a `forbidden` ApiError for the first write outside the writable
+// prefixes or touching a read-only key. Missing or malformed keys are left
+// for the action itself to report.
+export const checkWritePermissions = (nodes: DataNode[], ops: ApiRequest[], settings: ApiSecuritySettings) => {
+  ops.forEach(({ action, key }) => {
+    if (!key || invalidPath(key)) return;
+    const steps = parsePath(key);
+    const prefixes = settings.writablePrefixes;
+    if (prefixes.length > 0 && !prefixes.some(prefix => !invalidPath(prefix) && isWithin(steps, prefix))) {
+      throw new ApiError('forbidden', `"${key}" is outside the keys Shortcuts may change`);
+    }
+
+    for (let depth = 1; depth <= steps.length; depth++) {
+      const node = resolvePath(nodes, formatPath(steps.slice(0, depth)));
+      if (!node) break;
+      const readOnly = depth < steps.length || !REPLACING_ACTIONS.includes(action) ? node.rules?.readOnly : containsReadOnly(node);
+      if (readOnly) throw new ApiError('forbidden', `"${key}" is read-only for Shortcuts`);
+    }
+  });
+};
+
+// --- Rejection Log ---
+
+export interface RejectedCall {
+  at: number;
+  action: string;
+  keys: string[];
+  reason: string;
+}
+
+export const loadRejectedCalls = (): RejectedCall[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LOG_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+// Newest first, keeping the last LOG_LIMIT
+export const logRejectedCall = (call: Omit<RejectedCall, 'at'>) => {
+  const log = [{ ...call, at: Date.now() }, ...loadRejectedCalls()].slice(0, LOG_LIMIT);
+  try {
+    localStorage.setItem(LOG_KEY, JSON.stringify(log));
+  } catch (e) {
+    console.error("Failed to log rejected URL API call", e);
+  }
+};
+
+export const clearRejectedCalls = () => localStorage.removeItem(LOG_KEY);
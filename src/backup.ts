@@ -0,0 +1,104 @@
+import type { DataNode, DataType, ValidationRules } from './types';
+import { generateId } from './tree';
+import { DATA_TYPES } from './dataTypes';
+
+// --- Native Backup Format ---
+//
+// A `.datajar` file stores the node tree exactly as the app holds it (ids,
+// types, formulas and list order), so backup -> restore is lossless. Plain
+// JSON export (see exporter.ts) stays available for interop. A backup can
+// hold one jar or all of them.
+
+export const BACKUP_FORMAT = 'data-jar';
+export const BACKUP_VERSION = 2;
+export const BACKUP_EXTENSION = '.datajar';
+
+export interface BackupJar {
+  id: string;
+  name: string;
+  nodes: DataNode[];
+}
+
+export interface BackupDocument {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  jars: BackupJar[];
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+// Upgrades a document from version N (the key) to N + 1. When the format
+// changes, bump BACKUP_VERSION and register the step from the previous version here.
+type Migration = (doc: Record<string, unknown>) => Record<string, unknown>;
+const MIGRATIONS: Record<number, Migration> = {
+  // v1 held a single tree under `nodes`
+  1: ({ nodes, ...doc }) => ({ ...doc, version: 2, jars: [{ id: generateId(), name: 'Restored', nodes }] }),
+};
+
+export const createBackup = (jars: BackupJar[]): BackupDocument => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  jars,
+});
+
+export const isBackupDocument = (obj: unknown): obj is Record<string, unknown> =>
+  typeof obj === 'object' && obj !== null && (obj as Record<string, unknown>).format === BACKUP_FORMAT;
+
+const validateRules = (rules: unknown, path: string): { rules?: ValidationRules } => {
+  if (rules === undefined) return {};
+  if (typeof rules !== 'object' || rules === null || Array.isArray(rules)) throw new BackupError(`${path} has malformed rules`);
+  return { rules: rules as ValidationRules };
+};
+
+// Check a node (and its children) has the shape the app relies on
+const validateNode = (node: unknown, path: string): DataNode => {
+  if (typeof node !== 'object' || node === null) throw new BackupError(`${path} is not a node`);
+  const { id, name, type, value, rules } = node as Record<string, unknown>;
+  if (typeof id !== 'string' || !id) throw new BackupError(`${path} has no id`);
+  if (typeof name !== 'string') throw new BackupError(`${path} has no name`);
+  if (!DATA_TYPES.includes(type as DataType)) throw new BackupError(`${path} has unknown type "${String(type)}"`);
+
+  if (type === 'dictionary' || type === 'list') {
+    if (!Array.isArray(value)) throw new BackupError(`${path} should contain a list of children`);
+    return { id, name, type, value: value.map((child, index) => validateNode(child, `${path}.${index}`)), ...validateRules(rules, path) };
+  }
+  return { id, name, type: type as DataType, value, ...validateRules(rules, path) };
+};
+
+const validateJar = (jar: unknown, index: number): BackupJar => {
+  if (typeof jar !== 'object' || jar === null) throw new BackupError(`jars.${index} is not a jar`);
+  const { id, name, nodes } = jar as Record<string, unknown>;
+  if (typeof id !== 'string' || !id) throw new BackupError(`jars.${index} has no id`);
+  if (typeof name !== 'string') throw new BackupError(`jars.${index} has no name`);
+  if (!Array.isArray(nodes)) throw new BackupError(`jars.${index} has no nodes`);
+  return { id, name, nodes: nodes.map((node, i) => validateNode(node, `jars.${index}.nodes.${i}`)) };
+};
+
+// Migrate a parsed backup to the current version and return its jars
+export const restoreBackup = (obj: unknown): BackupJar[] => {
+  if (!isBackupDocument(obj)) throw new BackupError('Not a Data Jar backup');
+
+  let doc = obj;
+  let version = Number(doc.version);
+  if (!Number.isInteger(version) || version < 1) throw new BackupError('Backup has no valid version');
+  if (version > BACKUP_VERSION) {
+    throw new BackupError(`Backup version ${version} is newer than this app supports (${BACKUP_VERSION})`);
+  }
+
+  while (version < BACKUP_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new BackupError(`No migration from backup version ${version}`);
+    doc = migrate(doc);
+    version++;
+  }
+
+  if (!Array.isArray(doc.jars) || doc.jars.length === 0) throw new BackupError('Backup has no jars');
+  return doc.jars.map(validateJar);
+};
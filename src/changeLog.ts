@@ -0,0 +1,132 @@
+import type { DataNode } from './types';
+import type { JarStore } from './jars';
+import { diffNodes, type DiffKind } from './diff';
+import { SECRET_MASK } from './dataTypes';
+import { formatPath, nameStep } from './paths';
+
+// --- Change Log ---
+//
+// An append-only record of every change to a jar, one entry per key that
+// changed, saying where the change came from. Unlike the undo history it keeps
+// no trees, only the old and new value of each key as text, so it can reach
+// much further back. Entries are only ever dropped by the retention settings.
+
+export type ChangeSource = 'edit' | 'add' | 'delete' | 'import' | 'api' | 'sync' | 'undo' | 'restore';
+
+export const SOURCE_LABELS: Record<ChangeSource, string> = {
+  edit: 'Edit',
+  add: 'Add',
+  delete: 'Delete',
+  import: 'Import',
+  api: 'URL API',
+  sync: 'Sync',
+  undo: 'Undo / redo',
+  restore: 'Snapshot',
+};
+
+export interface ChangeEntry {
+  at: number;
+  source: ChangeSource;
+  label: string; // The action as named in the undo history
+  kind: DiffKind;
+  path: string;
+  nodeId: string; // Survives renames and moves, for the per-key history
+  before?: string;
+  after?: string;
+}
+
+export interface ChangeLogSettings {
+  maxEntries: number;
+  maxDays: number; // 0 keeps entries however old
+}
+
+export const RETENTION_ENTRIES = [200, 1000, 5000];
+export const RETENTION_DAYS = [7, 30, 90, 365, 0];
+
+const SETTINGS_KEY = 'data-jar-changes-settings';
+const DEFAULT_SETTINGS: ChangeLogSettings = { maxEntries: 1000, maxDays: 90 };
+
+// Long values are cut so one big import can't crowd out the rest of the log
+const VALUE_LIMIT = 500;
+
+// Secrets, including ones inside a container, are logged masked like everywhere else on screen
+const maskedJson = (node: DataNode): unknown => {
+  if (node.type === 'secret') return node.value ? SECRET_MASK : '';
+  if (node.type === 'dictionary') return Object.fromEntries((node.value as DataNode[]).map(child => [child.name, maskedJson(child)]));
+  if (node.type === 'list') return (node.value as DataNode[]).map(maskedJson);
+  return node.value;
+};
+
+const valueText = (node?: DataNode): string | undefined => {
+  if (!node) return undefined;
+  const text = node.type === 'dictionary' || node.type === 'list' ? JSON.stringify(maskedJson(node)) : String(maskedJson(node) ?? '');
+  return text.length > VALUE_LIMIT ? `${text.slice(0, VALUE_LIMIT)}…` : text;
+};
+
+// One entry per key that differs between the trees
+export const describeChanges = (before: DataNode[], after: DataNode[], source: ChangeSource, label: string, at = Date.now()): ChangeEntry[] =>
+  diffNodes(before, after).map(entry => ({
+    at,
+    source,
+    label,
+    kind: entry.kind,
+    path: formatPath(entry.path.map(nameStep)),
+    nodeId: (entry.after ?? entry.before)?.id ?? '',
+    before: valueText(entry.before),
+    after: valueText(entry.after),
+  }));
+
+// Drop what the retention settings no longer cover; the log is oldest first
+export const pruneChanges = (entries: ChangeEntry[], settings: ChangeLogSettings, now = Date.now()): ChangeEntry[] => {
+  const cutoff = settings.maxDays > 0 ? now - settings.maxDays * 24 * 60 * 60 * 1000 : -Infinity;
+  return entries.filter(entry => entry.at >= cutoff).slice(-settings.maxEntries);
+};
+
+export const appendChanges = (log: ChangeEntry[], entries: ChangeEntry[], settings: ChangeLogSettings): ChangeEntry[] =>
+  entries.length === 0 ? log : pruneChanges([...log, ...entries], settings);
+
+export const loadChangeLogSettings = (): ChangeLogSettings => {
+  const saved = localStorage.getItem(SETTINGS_KEY);
+  if (!saved) return DEFAULT_SETTINGS;
+  try {
+    const parsed = JSON.parse(saved);
+    if (typeof parsed.maxEntries === 'number' && typeof parsed.maxDays === 'number') return parsed;
+  } catch (e) {
+    console.error("Failed to load change log settings", e);
+  }
+  return DEFAULT_SETTINGS;
+};
+
+export const saveChangeLogSettings = (settings: ChangeLogSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const loadChangeLog = async (store: JarStore, jarId: string): Promise<ChangeEntry[]> => {
+  const saved = await store.loadRecord(jarId, 'changes');
+  return Array.isArray(saved) ? saved : [];
+};
+
+// Like the undo history, the log gives way when storage is full: the oldest half goes first
+const shrinkChangeLog = (log: ChangeEntry[]): ChangeEntry[] | null =>
+  log.length === 0 ? null : log.slice(Math.ceil(log.length / 2));
+
+export const saveChangeLog = (store: JarStore, jarId: string, log: ChangeEntry[]) =>
+  store.saveRecord(jarId, 'changes', log, shrinkChangeLog);
+
+// --- CSV Export ---
+
+const csvField = (text: string) => (/[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+
+export const changesToCsv = (entries: ChangeEntry[]): string =>
+  [
+    ['Time', 'Source', 'Action', 'Change', 'Path', 'Old value', 'New value'],
+    ...entries.map(entry => [
+      new Date(entry.at).toISOString(),
+      SOURCE_LABELS[entry.source],
+      entry.label,
+      entry.kind,
+      entry.path,
+      entry.before ?? '',
+      entry.after ?? '',
+    ]),
+  ].map(row => row.map(csvField).join(',')).join('\r\n');
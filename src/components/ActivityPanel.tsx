@@ -0,0 +1,105 @@
+import { useMemo, useState } from 'react';
+import { Activity, Download, X } from 'lucide-react';
+import { RETENTION_DAYS, RETENTION_ENTRIES, SOURCE_LABELS, type ChangeEntry, type ChangeLogSettings, type ChangeSource } from '../changeLog';
+import ChangeRow from './ChangeRow';
+
+const PAGE_SIZE = 100;
+
+interface ActivityPanelProps {
+  entries: ChangeEntry[];
+  settings: ChangeLogSettings;
+  onChangeSettings: (settings: ChangeLogSettings) => void;
+  onExport: (entries: ChangeEntry[]) => void;
+  onClose: () => void;
+}
+
+// Every recorded change to the jar, newest first, filtered by source and text
+const ActivityPanel = ({ entries, settings, onChangeSettings, onExport, onClose }: ActivityPanelProps) => {
+  const [source, setSource] = useState<ChangeSource | ''>('');
+  const [query, setQuery] = useState('');
+  const [shown, setShown] = useState(PAGE_SIZE);
+
+  const filtered = useMemo(() => {
+    const text = query.trim().toLowerCase();
+    return [...entries].reverse().filter(entry =>
+      (!source || entry.source === source) &&
+      (!text || [entry.path, entry.label, entry.before ?? '', entry.after ?? ''].some(field => field.toLowerCase().includes(text)))
+    );
+  }, [entries, source, query]);
+
+  const selectClass = "px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-2xl rounded-2xl shadow-2xl overflow-hidden max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center px-4 py-3 border-b border-slate-100 bg-slate-50/50">
+          <h2 className="font-semibold text-slate-800 flex items-center gap-2">
+            <Activity className="w-4 h-4 text-slate-500" />
+            Activity
+          </h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 text-slate-500">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 p-4 border-b border-slate-100">
+          <input
+            type="text"
+            placeholder="Filter by key, action or value"
+            className="flex-1 min-w-[10rem] px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm"
+            value={query}
+            onChange={e => { setQuery(e.target.value); setShown(PAGE_SIZE); }}
+          />
+          <select className={selectClass} value={source} onChange={e => { setSource(e.target.value as ChangeSource | ''); setShown(PAGE_SIZE); }}>
+            <option value="">All sources</option>
+            {(Object.keys(SOURCE_LABELS) as ChangeSource[]).map(key => <option key={key} value={key}>{SOURCE_LABELS[key]}</option>)}
+          </select>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {filtered.length === 0 ? (
+            <p className="text-sm text-slate-400 text-center py-8">{entries.length === 0 ? 'No changes recorded yet.' : 'No changes match.'}</p>
+          ) : (
+            <ul className="space-y-1">
+              {filtered.slice(0, shown).map((entry, index) => (
+                <ChangeRow key={index} entry={entry} showPath />
+              ))}
+            </ul>
+          )}
+          {filtered.length > shown && (
+            <button onClick={() => setShown(shown + PAGE_SIZE)} className="mt-2 w-full py-2 text-sm text-blue-600 hover:bg-blue-50 rounded-lg">
+              Show more ({filtered.length - shown} older)
+            </button>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 p-4 border-t border-slate-100 text-sm text-slate-600">
+          <span>Keep</span>
+          <select
+            className={selectClass}
+            value={settings.maxEntries}
+            onChange={e => onChangeSettings({ ...settings, maxEntries: Number(e.target.value) })}
+          >
+            {RETENTION_ENTRIES.map(count => <option key={count} value={count}>last {count} changes</option>)}
+          </select>
+          <select
+            className={selectClass}
+            value={settings.maxDays}
+            onChange={e => onChangeSettings({ ...settings, maxDays: Number(e.target.value) })}
+          >
+            {RETENTION_DAYS.map(days => <option key={days} value={days}>{days === 0 ? 'of any age' : `from the last ${days} days`}</option>)}
+          </select>
+          <button
+            onClick={() => onExport(filtered)}
+            disabled={filtered.length === 0}
+            className="ml-auto flex items-center gap-1 px-3 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:opacity-40"
+          >
+            <Download className="w-4 h-4" /> Export CSV
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ActivityPanel;
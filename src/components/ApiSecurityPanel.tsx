@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { Copy, RefreshCw, ShieldCheck, X } from 'lucide-react';
+import { generateSecret, UNSIGNED_POLICIES, type ApiSecuritySettings, type RejectedCall } from '../apiSecurity';
+import { invalidPath } from '../paths';
+
+interface ApiSecurityPanelProps {
+  settings: ApiSecuritySettings;
+  rejected: RejectedCall[];
+  onSave: (settings: ApiSecuritySettings) => void;
+  onClearLog: () => void;
+  onClose: () => void;
+}
+
+// Secret for signed links, what unsigned links may do, where Shortcuts may
+// write, and the calls that were turned away
+const ApiSecurityPanel = ({ settings, rejected, onSave, onClearLog, onClose }: ApiSecurityPanelProps) => {
+  const [secret, setSecret] = useState(settings.secret);
+  const [unsigned, setUnsigned] = useState(settings.unsigned);
+  const [prefixText, setPrefixText] = useState(settings.writablePrefixes.join('\n'));
+
+  const prefixes = prefixText.split('\n').map(line => line.trim()).filter(Boolean);
+  const badPrefix = prefixes.map(prefix => ({ prefix, error: invalidPath(prefix) })).find(p => p.error);
+  const labelClass = "block text-xs font-bold text-slate-500 uppercase tracking-wider";
+
+  const regenerate = () => {
+    if (secret && !confirm('Links signed with the current secret will stop working. Continue?')) return;
+    setSecret(generateSecret());
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[60] flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-md rounded-2xl shadow-2xl overflow-hidden max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center px-4 py-3 border-b border-slate-100 bg-slate-50/50">
+          <h2 className="font-semibold text-slate-800 flex items-center gap-2">
+            <ShieldCheck className="w-4 h-4 text-slate-500" />
+            URL API Security
+          </h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 text-slate-500">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-5 overflow-y-auto">
+          <div className="space-y-2">
+            <label className={labelClass}>Secret</label>
+            {secret ? (
+              <div className="flex gap-2">
+                <code className="flex-1 px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-xs font-mono truncate">{secret}</code>
+                <button onClick={() => navigator.clipboard.writeText(secret)} className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg" title="Copy">
+                  <Copy className="w-4 h-4" />
+                </button>
+                <button onClick={regenerate} className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg" title="Generate a new secret">
+                  <RefreshCw className="w-4 h-4" />
+                </button>
+              </div>
+            ) : (
+              <button onClick={regenerate} className="w-full px-3 py-2 text-sm font-medium text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-lg">
+                Generate secret
+              </button>
+            )}
+            <p className="text-xs text-slate-400">
+              Links from the Shortcuts builder are signed with it, or carry a <code className="bg-slate-100 px-1 rounded">token=</code> made from it when
+              Shortcuts fills in their values at run time. It never goes in a link itself. Keep it private: anyone with it can change the jar.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <label className={labelClass}>Links without a signature or token</label>
+            {UNSIGNED_POLICIES.map(option => (
+              <label key={option.policy} className="flex items-start gap-2 text-sm text-slate-700 cursor-pointer">
+                <input type="radio" name="unsigned" className="mt-1" checked={unsigned === option.policy} onChange={() => setUnsigned(option.policy)} />
+                <span>
+                  {option.label}
+                  <span className="block text-xs text-slate-400">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <label className={labelClass}>Writable keys</label>
+            <textarea
+              rows={3}
+              placeholder={'One path per line, e.g.\ncounters\nlog.entries'}
+              className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm font-mono"
+              value={prefixText}
+              onChange={e => setPrefixText(e.target.value)}
+            />
+            {badPrefix ? (
+              <p className="text-xs text-red-600">"{badPrefix.prefix}": {badPrefix.error}</p>
+            ) : (
+              <p className="text-xs text-slate-400">
+                Shortcuts can only change these keys and what's inside them. Leave empty to allow any key. Keys marked read-only
+                in their rules are protected either way.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <label className={labelClass}>Rejected calls</label>
+              {rejected.length > 0 && <button onClick={onClearLog} className="text-xs text-blue-600 hover:underline">Clear</button>}
+            </div>
+            {rejected.length === 0 ? (
+              <p className="text-xs text-slate-400">None so far.</p>
+            ) : (
+              <ul className="space-y-1 max-h-40 overflow-y-auto">
+                {rejected.map((call, index) => (
+                  <li key={index} className="text-xs bg-slate-50 rounded-lg px-2 py-1.5">
+                    <div className="flex gap-2">
+                      <span className="font-semibold text-slate-600">{call.action}</span>
+                      <span className="font-mono text-slate-500 truncate">{call.keys.join(', ')}</span>
+                      <span className="ml-auto text-slate-400 flex-shrink-0">{new Date(call.at).toLocaleString()}</span>
+                    </div>
+                    <p className="text-red-600">{call.reason}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="flex gap-2 p-4 border-t border-slate-100">
+          <button
+            onClick={() => onSave({ secret, unsigned, writablePrefixes: prefixes })}
+            disabled={!!badPrefix || (unsigned === 'reject' && !secret)}
+            title={unsigned === 'reject' && !secret ? 'Generate a secret first, or no link will work' : undefined}
+            className="ml-auto px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-40"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApiSecurityPanel;
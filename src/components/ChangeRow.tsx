@@ -0,0 +1,33 @@
+import { SOURCE_LABELS, type ChangeEntry } from '../changeLog';
+
+const KIND_STYLES: Record<ChangeEntry['kind'], string> = {
+  added: 'text-emerald-700',
+  changed: 'text-amber-700',
+  removed: 'text-red-600',
+};
+
+interface ChangeRowProps {
+  entry: ChangeEntry;
+  showPath?: boolean; // Off where every row is the same key
+}
+
+// One change log entry: when, from where, and the value before and after
+const ChangeRow = ({ entry, showPath = false }: ChangeRowProps) => (
+  <li className="text-xs bg-slate-50 rounded-lg px-3 py-2">
+    <div className="flex items-center gap-2 min-w-0">
+      <span className="px-1.5 py-0.5 rounded bg-slate-200 text-slate-600 font-semibold flex-shrink-0">{SOURCE_LABELS[entry.source]}</span>
+      {showPath && <code className={`font-mono truncate ${KIND_STYLES[entry.kind]}`}>{entry.path}</code>}
+      <span className="text-slate-500 truncate">{entry.label}</span>
+      <span className="ml-auto text-slate-400 flex-shrink-0">{new Date(entry.at).toLocaleString()}</span>
+    </div>
+    {(entry.before !== undefined || entry.after !== undefined) && entry.before !== entry.after && (
+      <div className="mt-1 font-mono break-all">
+        {entry.before !== undefined && <span className="text-red-600 line-through">{entry.before}</span>}
+        {entry.before !== undefined && entry.after !== undefined && <span className="text-slate-400"> → </span>}
+        {entry.after !== undefined && <span className="text-emerald-700">{entry.after}</span>}
+      </div>
+    )}
+  </li>
+);
+
+export default ChangeRow;
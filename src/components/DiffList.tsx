@@ -0,0 +1,40 @@
+import type { DataNode } from '../types';
+import type { DiffEntry, DiffKind } from '../diff';
+import { displayValue } from '../dataTypes';
+import { formatPath, nameStep } from '../paths';
+
+const describeNode = (node?: DataNode) => {
+  if (!node) return '';
+  if (node.type === 'dictionary' || node.type === 'list') return `${node.type} (${(node.value as DataNode[]).length} items)`;
+  if (node.type === 'expression') return `= ${node.value}`;
+  return displayValue(node);
+};
+
+const DIFF_STYLES: Record<DiffKind, { label: string, className: string }> = {
+  added: { label: '+', className: 'text-green-600' },
+  changed: { label: '~', className: 'text-amber-600' },
+  removed: { label: '−', className: 'text-red-600' },
+};
+
+// Added / changed / removed keys, each with a checkbox deciding whether it is applied
+const DiffList = ({ entries, isSelected, onToggle }: { entries: DiffEntry[], isSelected: (index: number) => boolean, onToggle: (index: number) => void }) => (
+  <ul className="max-h-64 overflow-y-auto border border-slate-200 rounded-lg divide-y divide-slate-100 mb-4">
+    {entries.map((entry, index) => (
+      <li key={index}>
+        <label className="flex items-start gap-2 px-3 py-2 text-xs cursor-pointer hover:bg-slate-50">
+          <input type="checkbox" className="mt-0.5" checked={isSelected(index)} onChange={() => onToggle(index)} />
+          <span className={`font-mono font-bold w-3 ${DIFF_STYLES[entry.kind].className}`}>{DIFF_STYLES[entry.kind].label}</span>
+          <span className="flex-1 min-w-0">
+            <code className="font-mono font-semibold text-slate-700">{formatPath(entry.path.map(nameStep))}</code>
+            <span className="block text-slate-500 truncate font-mono">
+              {entry.kind === 'changed' && <><span className="line-through text-slate-400">{describeNode(entry.before)}</span> → </>}
+              {describeNode(entry.after ?? entry.before)}
+            </span>
+          </span>
+        </label>
+      </li>
+    ))}
+  </ul>
+);
+
+export default DiffList;
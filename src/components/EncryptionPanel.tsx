@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { Lock, ShieldCheck, X } from 'lucide-react';
+import { AUTO_LOCK_OPTIONS } from '../encryption';
+
+interface EncryptionPanelProps {
+  enabled: boolean;
+  syncOn: boolean; // Encryption can't be turned on while the jar syncs
+  autoLockMinutes: number;
+  onEnable: (passphrase: string) => Promise<void>;
+  onChangePassphrase: (current: string, next: string) => Promise<void>;
+  onDisable: (current: string) => Promise<void>;
+  onAutoLockChange: (minutes: number) => void;
+  onLockNow: () => void;
+  onClose: () => void;
+}
+
+// Turn encryption on or off, change the passphrase and choose when to auto-lock
+const EncryptionPanel = ({ enabled, syncOn, autoLockMinutes, onEnable, onChangePassphrase, onDisable, onAutoLockChange, onLockNow, onClose }: EncryptionPanelProps) => {
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirmNext, setConfirmNext] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setCurrent('');
+      setNext('');
+      setConfirmNext('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const nextMismatch = next !== confirmNext;
+  const inputClass = "w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm";
+  const primaryClass = "px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-40";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-md rounded-2xl shadow-2xl overflow-hidden">
+        <div className="flex justify-between items-center px-4 py-3 border-b border-slate-100 bg-slate-50/50">
+          <h2 className="font-semibold text-slate-800 flex items-center gap-2">
+            <ShieldCheck className="w-4 h-4 text-slate-500" />
+            Encryption
+          </h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 text-slate-500">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {!enabled ? (
+            <>
+              <p className="text-sm text-slate-600">
+                Encrypt every jar, its history and snapshots, and all exports with a passphrase.
+                There is no way to recover the data if the passphrase is lost.
+              </p>
+              <input type="password" placeholder="New passphrase" className={inputClass} value={next} onChange={e => setNext(e.target.value)} />
+              <input type="password" placeholder="Repeat passphrase" className={inputClass} value={confirmNext} onChange={e => setConfirmNext(e.target.value)} />
+              {next && nextMismatch && <p className="text-xs text-red-600">Passphrases don't match</p>}
+              {syncOn && (
+                <p className="text-sm text-amber-700 bg-amber-50 rounded-lg p-3">
+                  Turn off sync first: the sync server would receive your data unencrypted.
+                </p>
+              )}
+              <div className="flex justify-end">
+                <button onClick={() => run(() => onEnable(next))} disabled={syncOn || !next || nextMismatch || busy} className={primaryClass}>
+                  {busy ? 'Encrypting…' : 'Turn on encryption'}
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="flex items-center justify-between">
+                <label className="text-sm text-slate-600">Lock after inactivity</label>
+                <select
+                  className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm"
+                  value={autoLockMinutes}
+                  onChange={e => onAutoLockChange(Number(e.target.value))}
+                >
+                  {AUTO_LOCK_OPTIONS.map(minutes => (
+                    <option key={minutes} value={minutes}>{minutes === 0 ? 'Never' : `${minutes} min`}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2 border-t border-slate-100 pt-4">
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider">Passphrase</label>
+                <input type="password" placeholder="Current passphrase" className={inputClass} value={current} onChange={e => setCurrent(e.target.value)} />
+                <input type="password" placeholder="New passphrase" className={inputClass} value={next} onChange={e => setNext(e.target.value)} />
+                <input type="password" placeholder="Repeat new passphrase" className={inputClass} value={confirmNext} onChange={e => setConfirmNext(e.target.value)} />
+                {next && nextMismatch && <p className="text-xs text-red-600">Passphrases don't match</p>}
+                <div className="flex justify-between gap-2">
+                  <button
+                    onClick={() => run(() => onDisable(current))}
+                    disabled={!current || busy}
+                    className="px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-40"
+                  >
+                    Turn off encryption
+                  </button>
+                  <button onClick={() => run(() => onChangePassphrase(current, next))} disabled={!current || !next || nextMismatch || busy} className={primaryClass}>
+                    {busy ? 'Re-encrypting…' : 'Change passphrase'}
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        {enabled && (
+          <div className="flex p-4 border-t border-slate-100">
+            <button onClick={onLockNow} className="ml-auto flex items-center gap-1 px-3 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-lg">
+              <Lock className="w-4 h-4" /> Lock now
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EncryptionPanel;
@@ -0,0 +1,148 @@
+import { useMemo, useRef, useState } from 'react';
+import type { DataNode } from '../types';
+import { listPaths } from '../paths';
+
+interface FormulaEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  nodes: DataNode[];
+  unknown: { start: number, end: number }[]; // Reference spans to underline
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// The `{{` reference being typed at the caret, if any: where its path starts and what's typed so far
+const openReference = (text: string, caret: number): { start: number, query: string } | null => {
+  const open = caret >= 2 ? text.lastIndexOf('{{', caret - 2) : -1;
+  if (open < 0) return null;
+  const typed = text.slice(open + 2, caret);
+  if (typed.includes('}}') || typed.includes('\n') || typed.trimStart().startsWith('@')) return null;
+  return { start: open + 2, query: typed.trimStart() };
+};
+
+// Formula textarea with `{{` path completion and unknown keys underlined.
+// The underlines live in a backdrop that mirrors the text behind the textarea.
+const FormulaEditor = ({ value, onChange, nodes, unknown }: FormulaEditorProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const [caret, setCaret] = useState<number | null>(null);
+  const [active, setActive] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const paths = useMemo(() => listPaths(nodes), [nodes]);
+  const reference = caret === null || dismissed ? null : openReference(value, caret);
+
+  // Paths starting with what's typed, then ones containing it
+  const suggestions = (() => {
+    if (!reference) return [];
+    const query = reference.query.toLowerCase();
+    const starts = paths.filter(path => path.toLowerCase().startsWith(query));
+    const contains = paths.filter(path => !path.toLowerCase().startsWith(query) && path.toLowerCase().includes(query));
+    return [...starts, ...contains].filter(path => path !== reference.query).slice(0, MAX_SUGGESTIONS);
+  })();
+
+  const trackCaret = () => setCaret(textareaRef.current?.selectionStart ?? null);
+
+  const complete = (path: string) => {
+    if (!reference || caret === null) return;
+    const after = value.slice(caret);
+    const closed = /^\s*}}/.test(after);
+    const inserted = closed ? path : `${path}}}`;
+    const next = `${value.slice(0, reference.start)}${inserted}${after}`;
+    const position = reference.start + inserted.length + (closed ? after.indexOf('}}') + 2 : 0);
+    onChange(next);
+    setCaret(position);
+    setActive(0);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActive(current => (current + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      complete(suggestions[Math.min(active, suggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      e.stopPropagation();
+      setDismissed(true);
+    }
+  };
+
+  // Plain text with the unknown spans wrapped for underlining
+  const segments = (() => {
+    const parts: { text: string, unknown: boolean }[] = [];
+    let index = 0;
+    [...unknown].sort((a, b) => a.start - b.start).forEach(span => {
+      if (span.start < index) return;
+      parts.push({ text: value.slice(index, span.start), unknown: false });
+      parts.push({ text: value.slice(span.start, span.end), unknown: true });
+      index = span.end;
+    });
+    parts.push({ text: `${value.slice(index)} `, unknown: false }); // Trailing space keeps a final newline's height
+    return parts;
+  })();
+
+  const boxClass = "px-3 py-2.5 border rounded-lg font-mono text-sm whitespace-pre-wrap break-words";
+
+  return (
+    <div className="relative">
+      <div ref={backdropRef} aria-hidden className={`absolute inset-0 overflow-hidden pointer-events-none border-transparent bg-purple-50/50 text-transparent ${boxClass}`}>
+        {segments.map((part, index) => (
+          <span key={index} className={part.unknown ? 'underline decoration-wavy decoration-red-500' : undefined}>{part.text}</span>
+        ))}
+      </div>
+      <textarea
+        ref={textareaRef}
+        className={`relative block w-full bg-transparent border-purple-200 text-purple-700 focus:outline-none focus:ring-2 focus:border-purple-500 focus:ring-purple-500/20 transition-all ${boxClass}`}
+        rows={3}
+        placeholder="{{key}} + 10"
+        spellCheck={false}
+        value={value}
+        onChange={e => {
+          onChange(e.target.value);
+          setCaret(e.target.selectionStart);
+          setDismissed(false);
+          setActive(0);
+        }}
+        onSelect={trackCaret}
+        onBlur={() => setCaret(null)}
+        onKeyDown={handleKeyDown}
+        onScroll={e => {
+          if (backdropRef.current) backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+        }}
+      />
+      <div className="absolute top-2 right-2">
+        <div className="bg-white/80 backdrop-blur rounded px-2 py-1 text-[10px] font-bold text-purple-600 shadow-sm border border-purple-100">
+          EXP
+        </div>
+      </div>
+
+      {suggestions.length > 0 && (
+        <ul className="absolute left-0 right-0 top-full mt-1 bg-white border border-slate-200 rounded-lg shadow-lg z-10 max-h-48 overflow-y-auto py-1">
+          {suggestions.map((path, index) => (
+            <li key={path}>
+              <button
+                // Keep focus in the textarea so the caret survives the click
+                onMouseDown={e => {
+                  e.preventDefault();
+                  complete(path);
+                }}
+                className={`w-full text-left px-3 py-1 font-mono text-xs truncate ${index === active ? 'bg-purple-50 text-purple-700' : 'text-slate-600 hover:bg-slate-50'}`}
+              >
+                {path}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default FormulaEditor;
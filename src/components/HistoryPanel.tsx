@@ -0,0 +1,149 @@
+import { useMemo, useState } from 'react';
+import { ChevronRight, History, Trash2, X, Camera } from 'lucide-react';
+import type { DataNode } from '../types';
+import { diffNodes, revertEntries } from '../diff';
+import { PRUNE_AFTER_DAYS, type Snapshot, type SnapshotKind } from '../snapshots';
+import DiffList from './DiffList';
+
+const KIND_LABELS: Record<SnapshotKind, string> = {
+  manual: 'Manual',
+  daily: 'Daily',
+  'pre-import': 'Before import',
+};
+
+interface HistoryPanelProps {
+  snapshots: Snapshot[];
+  current: DataNode[];
+  onCreate: (label: string) => void;
+  onDelete: (id: string) => void;
+  onPrune: () => void;
+  onRestore: (label: string, data: DataNode[]) => void;
+  onClose: () => void;
+}
+
+// Browse snapshots, compare one against the current jar and restore all or part of it
+const HistoryPanel = ({ snapshots, current, onCreate, onDelete, onPrune, onRestore, onClose }: HistoryPanelProps) => {
+  const [label, setLabel] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [chosen, setChosen] = useState<number[]>([]);
+
+  const selected = snapshots.find(s => s.id === selectedId);
+  const entries = useMemo(() => (selected ? diffNodes(current, selected.data) : []), [current, selected]);
+
+  const openSnapshot = (id: string | null) => {
+    setSelectedId(id);
+    setChosen([]);
+  };
+
+  // Start from the snapshot and put back the current value of every key that wasn't chosen
+  const restoreChosen = () => {
+    if (!selected) return;
+    const skipped = entries.filter((_entry, index) => !chosen.includes(index));
+    onRestore(`${selected.label} (${chosen.length} key${chosen.length === 1 ? '' : 's'})`, revertEntries(selected.data, current, skipped));
+    openSnapshot(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-lg rounded-2xl shadow-2xl overflow-hidden">
+        <div className="flex justify-between items-center px-4 py-3 border-b border-slate-100 bg-slate-50/50">
+          <h2 className="font-semibold text-slate-800 flex items-center gap-2">
+            <History className="w-4 h-4 text-slate-500" />
+            {selected ? selected.label : 'Snapshots'}
+          </h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 text-slate-500">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {selected ? (
+          <div className="p-4">
+            <p className="text-xs text-slate-500 mb-3">
+              {new Date(selected.createdAt).toLocaleString()} · Changes from the current jar back to this snapshot.
+              Tick keys to restore just those.
+            </p>
+            {entries.length === 0 ? (
+              <p className="text-sm text-slate-400 text-center py-8">Identical to the current jar</p>
+            ) : (
+              <DiffList
+                entries={entries}
+                isSelected={index => chosen.includes(index)}
+                onToggle={index => setChosen(chosen.includes(index) ? chosen.filter(i => i !== index) : [...chosen, index])}
+              />
+            )}
+            <div className="flex gap-2">
+              <button onClick={() => openSnapshot(null)} className="flex-1 py-2 text-slate-600 hover:bg-slate-100 rounded-lg font-medium text-sm">Back</button>
+              <button
+                onClick={restoreChosen}
+                disabled={chosen.length === 0}
+                className="flex-1 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg font-medium text-sm hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Restore selected
+              </button>
+              <button
+                onClick={() => { onRestore(selected.label, selected.data); openSnapshot(null); }}
+                disabled={entries.length === 0}
+                className="flex-1 py-2 bg-blue-600 text-white rounded-lg font-medium text-sm shadow-lg shadow-blue-600/20 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Restore all
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="p-4 space-y-4">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                placeholder="Snapshot name, e.g. before migration"
+                className="flex-1 px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm"
+                value={label}
+                onChange={e => setLabel(e.target.value)}
+              />
+              <button
+                onClick={() => { onCreate(label.trim() || 'Manual snapshot'); setLabel(''); }}
+                className="flex items-center gap-1.5 px-3 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium"
+              >
+                <Camera className="w-4 h-4" />
+                Take
+              </button>
+            </div>
+
+            <ul className="max-h-80 overflow-y-auto border border-slate-200 rounded-lg divide-y divide-slate-100">
+              {snapshots.length === 0 && (
+                <li className="px-3 py-8 text-center text-sm text-slate-400">No snapshots yet</li>
+              )}
+              {snapshots.map(snapshot => (
+                <li
+                  key={snapshot.id}
+                  className="group flex items-center gap-2 px-3 py-2 hover:bg-slate-50 cursor-pointer"
+                  onClick={() => openSnapshot(snapshot.id)}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-slate-700 truncate">{snapshot.label}</div>
+                    <div className="text-xs text-slate-400">
+                      {KIND_LABELS[snapshot.kind]} · {new Date(snapshot.createdAt).toLocaleString()}
+                    </div>
+                  </div>
+                  <button
+                    onClick={e => { e.stopPropagation(); onDelete(snapshot.id); }}
+                    className="p-1.5 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-full opacity-0 group-hover:opacity-100 transition-all"
+                    title="Delete snapshot"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                  <ChevronRight className="w-4 h-4 text-slate-300" />
+                </li>
+              ))}
+            </ul>
+
+            <button onClick={onPrune} className="text-xs font-semibold text-slate-500 hover:text-red-600">
+              Prune automatic snapshots older than {PRUNE_AFTER_DAYS} days
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { Archive, Check, ChevronDown, Copy, Download, FileCode, Pencil, Plus, Trash2 } from 'lucide-react';
+import type { JarInfo } from '../jars';
+
+interface JarMenuProps {
+  jars: JarInfo[];
+  activeId: string;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onRename: () => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onExportAll: () => void;
+  onBackupAll: () => void;
+  onExportSchema: () => void;
+}
+
+// Header dropdown for switching between jars and managing them
+const JarMenu = ({ jars, activeId, onSwitch, onCreate, onRename, onDuplicate, onDelete, onExportAll, onBackupAll, onExportSchema }: JarMenuProps) => {
+  const [open, setOpen] = useState(false);
+  const active = jars.find(jar => jar.id === activeId);
+
+  // Close the menu, then run the chosen action
+  const choose = (action: () => void) => () => {
+    setOpen(false);
+    action();
+  };
+
+  const itemClass = "w-full flex items-center gap-2 px-3 py-2 text-sm text-slate-600 hover:bg-slate-50 text-left";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 text-xs bg-slate-200 text-slate-600 px-2 py-0.5 rounded-full font-medium ml-1 hover:bg-slate-300 transition-colors"
+        title="Switch jar"
+      >
+        {active?.name ?? 'Jar'}
+        <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-20" onClick={() => setOpen(false)} />
+          <div className="absolute left-0 mt-2 w-56 bg-white rounded-xl shadow-xl border border-slate-200 z-30 overflow-hidden">
+            <div className="max-h-60 overflow-y-auto py-1">
+              {jars.map(jar => (
+                <button key={jar.id} onClick={choose(() => onSwitch(jar.id))} className={itemClass}>
+                  <Check className={`w-4 h-4 ${jar.id === activeId ? 'text-blue-600' : 'invisible'}`} />
+                  <span className={`truncate ${jar.id === activeId ? 'font-semibold text-slate-800' : ''}`}>{jar.name}</span>
+                </button>
+              ))}
+            </div>
+            <div className="border-t border-slate-100 py-1">
+              <button onClick={choose(onCreate)} className={itemClass}><Plus className="w-4 h-4" />New jar</button>
+              <button onClick={choose(onRename)} className={itemClass}><Pencil className="w-4 h-4" />Rename</button>
+              <button onClick={choose(onDuplicate)} className={itemClass}><Copy className="w-4 h-4" />Duplicate</button>
+              <button onClick={choose(onDelete)} disabled={jars.length < 2} className={`${itemClass} hover:text-red-600 disabled:opacity-40 disabled:hover:text-slate-600`}>
+                <Trash2 className="w-4 h-4" />Delete
+              </button>
+            </div>
+            <div className="border-t border-slate-100 py-1">
+              <button onClick={choose(onExportAll)} className={itemClass}><Download className="w-4 h-4" />Export all jars (JSON)</button>
+              <button onClick={choose(onBackupAll)} className={itemClass}><Archive className="w-4 h-4" />Back up all jars</button>
+              <button onClick={choose(onExportSchema)} className={itemClass}><FileCode className="w-4 h-4" />Export JSON Schema</button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default JarMenu;
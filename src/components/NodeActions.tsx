@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { Copy, FolderInput, Pencil, Shuffle, X } from 'lucide-react';
+import type { DataNode, DataType } from '../types';
+import { DATA_TYPES, TYPE_LABELS } from '../dataTypes';
+import type { Reference } from '../references';
+import UsedByList from './UsedByList';
+
+export interface MoveTarget {
+  id: string | null; // null for the top level of the jar
+  label: string;
+}
+
+interface NodeActionsProps {
+  node: DataNode;
+  inList: boolean; // List items are named by position and can't be renamed
+  targets: MoveTarget[];
+  usages: Reference[];
+  onRename: (name: string) => void;
+  onConvert: (type: DataType) => void;
+  onDuplicate: () => void;
+  onMove: (targetId: string | null) => void;
+  onJump: (expressionId: string) => void;
+  onClose: () => void;
+}
+
+// Restructure one key: rename, change type, copy or move it elsewhere.
+// Formulas that reference the key follow it (see references.ts).
+const NodeActions = ({ node, inList, targets, usages, onRename, onConvert, onDuplicate, onMove, onJump, onClose }: NodeActionsProps) => {
+  const [name, setName] = useState(node.name);
+  const [type, setType] = useState<DataType>(node.type);
+  const [target, setTarget] = useState(0);
+
+  const inputClass = "flex-1 min-w-0 px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm";
+  const buttonClass = "flex items-center gap-1 px-3 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-40";
+  const labelClass = "block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-md rounded-2xl shadow-2xl overflow-hidden">
+        <div className="flex justify-between items-center px-4 py-3 border-b border-slate-100 bg-slate-50/50">
+          <h2 className="font-semibold text-slate-800 truncate">"{node.name}"</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 text-slate-500">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {!inList && (
+            <div>
+              <label className={labelClass}>Rename</label>
+              <div className="flex gap-2">
+                <input type="text" className={inputClass} value={name} onChange={e => setName(e.target.value)} />
+                <button onClick={() => onRename(name.trim())} disabled={!name.trim() || name.trim() === node.name} className={buttonClass}>
+                  <Pencil className="w-4 h-4" /> Rename
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className={labelClass}>Change type</label>
+            <div className="flex gap-2">
+              <select className={inputClass} value={type} onChange={e => setType(e.target.value as DataType)}>
+                {DATA_TYPES.map(t => <option key={t} value={t}>{TYPE_LABELS[t]}</option>)}
+              </select>
+              <button onClick={() => onConvert(type)} disabled={type === node.type} className={buttonClass}>
+                <Shuffle className="w-4 h-4" /> Convert
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Move to</label>
+            {targets.length === 0 ? (
+              <p className="text-sm text-slate-400">There is nowhere else to move this key.</p>
+            ) : (
+              <div className="flex gap-2">
+                <select className={inputClass} value={target} onChange={e => setTarget(Number(e.target.value))}>
+                  {targets.map((t, index) => <option key={t.id ?? 'root'} value={index}>{t.label}</option>)}
+                </select>
+                <button onClick={() => onMove(targets[target].id)} className={buttonClass}>
+                  <FolderInput className="w-4 h-4" /> Move
+                </button>
+              </div>
+            )}
+            <p className="mt-1 text-xs text-slate-400">You can also drag a row onto a dictionary, a list or the path above.</p>
+          </div>
+
+          <UsedByList usages={usages} onJump={onJump} />
+        </div>
+
+        <div className="flex p-4 border-t border-slate-100">
+          <button onClick={onDuplicate} className="flex items-center gap-1 px-3 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-lg">
+            <Copy className="w-4 h-4" /> Duplicate
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NodeActions;
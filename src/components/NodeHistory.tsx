@@ -0,0 +1,38 @@
+import { useState } from 'react';
+import type { ChangeEntry } from '../changeLog';
+import ChangeRow from './ChangeRow';
+
+const INITIAL_ROWS = 5;
+
+interface NodeHistoryProps {
+  entries: ChangeEntry[]; // This key's entries, oldest first
+}
+
+// The change log narrowed to one key, newest first
+const NodeHistory = ({ entries }: NodeHistoryProps) => {
+  const [expanded, setExpanded] = useState(false);
+  const newest = [...entries].reverse();
+  const shown = expanded ? newest : newest.slice(0, INITIAL_ROWS);
+
+  return (
+    <div>
+      <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">History</label>
+      {entries.length === 0 ? (
+        <p className="text-sm text-slate-400">No recorded changes.</p>
+      ) : (
+        <>
+          <ul className="space-y-1 max-h-48 overflow-y-auto">
+            {shown.map((entry, index) => <ChangeRow key={index} entry={entry} />)}
+          </ul>
+          {newest.length > INITIAL_ROWS && (
+            <button onClick={() => setExpanded(!expanded)} className="mt-1 text-xs text-blue-600 hover:underline">
+              {expanded ? 'Show fewer' : `Show all ${newest.length}`}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default NodeHistory;
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { ShieldCheck, X } from 'lucide-react';
+import type { DataNode, ValidationRules } from '../types';
+import { TYPE_LABELS, ValueError, parseTypedValue } from '../dataTypes';
+import { invalidPattern } from '../schema';
+
+interface RulesPanelProps {
+  node: DataNode;
+  onSave: (rules: ValidationRules | undefined) => void;
+  onClose: () => void;
+}
+
+const splitList = (text: string) => text.split(',').map(item => item.trim()).filter(Boolean);
+const optionalNumber = (text: string) => (text.trim() === '' ? undefined : Number(text));
+
+// Edit the validation rules of one key
+const RulesPanel = ({ node, onSave, onClose }: RulesPanelProps) => {
+  const rules = node.rules ?? {};
+  const [min, setMin] = useState(rules.min?.toString() ?? '');
+  const [max, setMax] = useState(rules.max?.toString() ?? '');
+  const [pattern, setPattern] = useState(rules.pattern ?? '');
+  const [allowed, setAllowed] = useState(rules.allowed?.join(', ') ?? '');
+  const [required, setRequired] = useState(rules.required?.join(', ') ?? '');
+  const [lockType, setLockType] = useState(rules.lockType ?? false);
+  const [readOnly, setReadOnly] = useState(rules.readOnly ?? false);
+  const [defaultText, setDefaultText] = useState(rules.default === undefined ? '' : String(rules.default));
+  const [error, setError] = useState<string | null>(null);
+
+  const isContainer = node.type === 'dictionary' || node.type === 'list';
+  const isScalar = !isContainer && node.type !== 'expression' && node.type !== 'null';
+  const takesSize = !['expression', 'null', 'boolean'].includes(node.type);
+  const takesPattern = isScalar && node.type !== 'number' && node.type !== 'boolean';
+  const sizeLabel = node.type === 'number' ? 'value' : isContainer ? 'items' : 'length';
+
+  const save = () => {
+    const next: ValidationRules = { lockType: lockType || undefined, readOnly: readOnly || undefined };
+    const minValue = optionalNumber(min);
+    const maxValue = optionalNumber(max);
+    if ((minValue !== undefined && isNaN(minValue)) || (maxValue !== undefined && isNaN(maxValue))) {
+      setError('Min and max must be numbers');
+      return;
+    }
+    if (minValue !== undefined && maxValue !== undefined && minValue > maxValue) {
+      setError('Min is larger than max');
+      return;
+    }
+    if (takesSize) {
+      next.min = minValue;
+      next.max = maxValue;
+    }
+    if (takesPattern && pattern) {
+      const problem = invalidPattern(pattern);
+      if (problem) {
+        setError(`Invalid pattern: ${problem}`);
+        return;
+      }
+      next.pattern = pattern;
+    }
+    if (isScalar && splitList(allowed).length) next.allowed = splitList(allowed);
+    if (node.type === 'dictionary' && splitList(required).length) next.required = splitList(required);
+    if (isScalar && defaultText !== '') {
+      try {
+        next.default = parseTypedValue(node.type, defaultText);
+      } catch (err) {
+        if (!(err instanceof ValueError)) throw err;
+        setError(`Default: ${err.message}`);
+        return;
+      }
+    }
+
+    const cleaned = Object.fromEntries(Object.entries(next).filter(([, value]) => value !== undefined)) as ValidationRules;
+    onSave(Object.keys(cleaned).length ? cleaned : undefined);
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm";
+  const labelClass = "block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-md rounded-2xl shadow-2xl overflow-hidden">
+        <div className="flex justify-between items-center px-4 py-3 border-b border-slate-100 bg-slate-50/50">
+          <h2 className="font-semibold text-slate-800 flex items-center gap-2">
+            <ShieldCheck className="w-4 h-4 text-slate-500" />
+            Rules for "{node.name}"
+          </h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 text-slate-500">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {takesSize && (
+            <div className="flex gap-2">
+              <div className="flex-1">
+                <label className={labelClass}>Min {sizeLabel}</label>
+                <input type="number" className={inputClass} value={min} onChange={e => setMin(e.target.value)} />
+              </div>
+              <div className="flex-1">
+                <label className={labelClass}>Max {sizeLabel}</label>
+                <input type="number" className={inputClass} value={max} onChange={e => setMax(e.target.value)} />
+              </div>
+            </div>
+          )}
+          {takesPattern && (
+            <div>
+              <label className={labelClass}>Pattern</label>
+              <input type="text" className={`${inputClass} font-mono`} placeholder="^[a-z]+$" value={pattern} onChange={e => setPattern(e.target.value)} />
+            </div>
+          )}
+          {isScalar && (
+            <div>
+              <label className={labelClass}>Allowed values</label>
+              <input type="text" className={inputClass} placeholder="small, medium, large" value={allowed} onChange={e => setAllowed(e.target.value)} />
+            </div>
+          )}
+          {node.type === 'dictionary' && (
+            <div>
+              <label className={labelClass}>Required keys</label>
+              <input type="text" className={inputClass} placeholder="id, name" value={required} onChange={e => setRequired(e.target.value)} />
+            </div>
+          )}
+          {isScalar && (
+            <div>
+              <label className={labelClass}>Default value</label>
+              <input type="text" className={inputClass} placeholder="Used when a Shortcut sets an empty value" value={defaultText} onChange={e => setDefaultText(e.target.value)} />
+            </div>
+          )}
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input type="checkbox" checked={lockType} onChange={e => setLockType(e.target.checked)} />
+            Always keep this key a {TYPE_LABELS[node.type].toLowerCase()}
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input type="checkbox" checked={readOnly} onChange={e => setReadOnly(e.target.checked)} />
+            Read-only for Shortcuts{isContainer && ', including everything inside'}
+          </label>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex gap-2 p-4 border-t border-slate-100">
+          {node.rules && (
+            <button onClick={() => onSave(undefined)} className="px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg">
+              Remove rules
+            </button>
+          )}
+          <button onClick={save} className="ml-auto px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700">
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RulesPanel;
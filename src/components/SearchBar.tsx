@@ -0,0 +1,93 @@
+import { useMemo, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import type { DataNode, DataType } from '../types';
+import { DATA_TYPES, TYPE_LABELS, displayValue } from '../dataTypes';
+import { searchTree, type SearchResult } from '../search';
+
+interface SearchBarProps {
+  nodes: DataNode[];
+  onSelect: (result: SearchResult) => void;
+}
+
+const preview = (node: DataNode) => {
+  if (node.type === 'dictionary' || node.type === 'list') return `${(node.value as DataNode[]).length} items`;
+  if (node.type === 'expression') return `= ${node.value}`;
+  return displayValue(node);
+};
+
+// Search key names, values and formulas at every depth of the jar
+const SearchBar = ({ nodes, onSelect }: SearchBarProps) => {
+  const [query, setQuery] = useState('');
+  const [type, setType] = useState<DataType | ''>('');
+
+  const active = query.trim() !== '' || type !== '';
+  const results = useMemo(() => (active ? searchTree(nodes, query, type ? [type] : []) : []), [nodes, query, type, active]);
+
+  const clear = () => {
+    setQuery('');
+    setType('');
+  };
+
+  const choose = (result: SearchResult) => {
+    clear();
+    onSelect(result);
+  };
+
+  return (
+    <div className="relative px-4 py-2 border-b border-slate-200">
+      <div className="flex gap-2">
+        <div className="flex-1 flex items-center gap-2 px-3 bg-slate-50 border border-slate-200 rounded-lg focus-within:ring-2 focus-within:ring-blue-500/20 focus-within:border-blue-500">
+          <Search className="w-4 h-4 text-slate-400 flex-shrink-0" />
+          <input
+            type="text"
+            placeholder="Search keys, values and formulas"
+            className="flex-1 py-2 bg-transparent text-sm focus:outline-none"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Escape') clear();
+              if (e.key === 'Enter' && results.length > 0) choose(results[0]);
+            }}
+          />
+          {active && (
+            <button onClick={clear} className="p-0.5 text-slate-400 hover:text-slate-600" title="Clear search">
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+        <select
+          className="px-2 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-600"
+          value={type}
+          onChange={e => setType(e.target.value as DataType | '')}
+        >
+          <option value="">All types</option>
+          {DATA_TYPES.map(t => <option key={t} value={t}>{TYPE_LABELS[t]}</option>)}
+        </select>
+      </div>
+
+      {active && (
+        <div className="absolute left-4 right-4 mt-2 bg-white rounded-xl shadow-xl border border-slate-200 z-30 max-h-80 overflow-y-auto">
+          {results.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-slate-400">No matches</p>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {results.map(result => (
+                <li key={result.node.id}>
+                  <button onClick={() => choose(result)} className="w-full text-left px-4 py-2 hover:bg-slate-50">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-sm text-slate-700 truncate">{result.path}</span>
+                      <span className="ml-auto text-[10px] uppercase font-semibold text-slate-400 flex-shrink-0">{TYPE_LABELS[result.node.type]}</span>
+                    </div>
+                    <p className={`text-xs truncate ${result.field === 'name' ? 'text-slate-400' : 'text-slate-500'}`}>{preview(result.node)}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchBar;
@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { Cloud, CloudOff, RefreshCw, X } from 'lucide-react';
+import { MOCK_ENDPOINT, type SyncSettings, type SyncStatus } from '../remoteSync';
+
+const PHASE_LABELS: Record<SyncStatus['phase'], string> = {
+  off: 'Local',
+  idle: 'Synced',
+  syncing: 'Syncing…',
+  offline: 'Offline',
+  error: 'Sync error',
+};
+
+// Header badge showing where the jar lives and how far behind the server it is
+export const SyncBadge = ({ status, onClick }: { status: SyncStatus, onClick: () => void }) => {
+  const Icon = status.phase === 'off' || status.phase === 'offline' ? CloudOff : status.phase === 'syncing' ? RefreshCw : Cloud;
+  const tone = status.phase === 'error' ? 'bg-red-100 text-red-700' : status.phase === 'offline' ? 'bg-amber-100 text-amber-700' : 'bg-slate-200 text-slate-600';
+  return (
+    <button
+      onClick={onClick}
+      className={`flex items-center gap-1 text-xs px-2 py-0.5 rounded-full font-medium hover:opacity-80 transition-opacity ${tone}`}
+      title={status.message ?? 'Sync settings'}
+    >
+      <Icon className={`w-3 h-3 ${status.phase === 'syncing' ? 'animate-spin' : ''}`} />
+      {PHASE_LABELS[status.phase]}
+      {status.pending > 0 && <span>· {status.pending}</span>}
+    </button>
+  );
+};
+
+interface SyncPanelProps {
+  settings: SyncSettings | null;
+  status: SyncStatus;
+  encrypted: boolean; // Sync is unavailable while the jar is encrypted
+  onSave: (settings: SyncSettings | null) => void;
+  onSyncNow: () => void;
+  onClose: () => void;
+}
+
+// Configure the sync endpoint and see how the last sync went
+const SyncPanel = ({ settings, status, encrypted, onSave, onSyncNow, onClose }: SyncPanelProps) => {
+  const [endpoint, setEndpoint] = useState(settings?.endpoint ?? '');
+  const [token, setToken] = useState(settings?.token ?? '');
+
+  const inputClass = "w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-md rounded-2xl shadow-2xl overflow-hidden">
+        <div className="flex justify-between items-center px-4 py-3 border-b border-slate-100 bg-slate-50/50">
+          <h2 className="font-semibold text-slate-800 flex items-center gap-2">
+            <Cloud className="w-4 h-4 text-slate-500" />
+            Sync
+          </h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 text-slate-500">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="space-y-2">
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider">Server</label>
+            <input
+              type="text"
+              placeholder="https://example.com/data-jar"
+              className={inputClass}
+              value={endpoint}
+              onChange={e => setEndpoint(e.target.value)}
+            />
+            <input
+              type="password"
+              placeholder="Access token (optional)"
+              className={inputClass}
+              value={token}
+              onChange={e => setToken(e.target.value)}
+            />
+            <p className="text-xs text-slate-400">
+              Jars are matched between devices by name. Use <code className="bg-slate-100 px-1 rounded">{MOCK_ENDPOINT}</code> to
+              try sync against a built-in test server that lasts until the page reloads.
+            </p>
+          </div>
+
+          {encrypted && (
+            <p className="text-sm text-amber-700 bg-amber-50 rounded-lg p-3">
+              Sync is off while encryption is on: the server would receive your data unencrypted.
+            </p>
+          )}
+
+          {settings && !encrypted && (
+            <div className="text-sm text-slate-600 bg-slate-50 rounded-lg p-3 space-y-1">
+              <p><span className="font-medium">{PHASE_LABELS[status.phase]}</span>{status.message && ` · ${status.message}`}</p>
+              <p className="text-xs text-slate-400">
+                {status.pending > 0 ? `${status.pending} change${status.pending === 1 ? '' : 's'} waiting to sync` : 'Nothing waiting to sync'}
+                {status.syncedAt && ` · last synced ${new Date(status.syncedAt).toLocaleTimeString()}`}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-2 p-4 border-t border-slate-100">
+          {settings && (
+            <>
+              <button onClick={() => onSave(null)} className="px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg">
+                Turn off
+              </button>
+              <button
+                onClick={onSyncNow}
+                disabled={encrypted || status.phase === 'syncing'}
+                className="flex items-center gap-1 px-3 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-lg disabled:opacity-40"
+              >
+                <RefreshCw className="w-4 h-4" /> Sync now
+              </button>
+            </>
+          )}
+          <button
+            onClick={() => onSave({ endpoint: endpoint.trim(), token: token.trim() })}
+            disabled={encrypted || !endpoint.trim()}
+            className="ml-auto px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-40"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncPanel;
@@ -0,0 +1,74 @@
+import { AlertCircle, Check } from 'lucide-react';
+import { displayResult } from '../expression';
+import { stepValue, type ExpressionTrace } from '../trace';
+
+interface TracePanelProps {
+  formula: string;
+  trace: ExpressionTrace;
+}
+
+// The line of `text` holding `position`, with a caret under it
+const pointAt = (text: string, position: number) => {
+  const start = text.lastIndexOf('\n', position - 1) + 1;
+  const end = text.indexOf('\n', position);
+  return `${text.slice(start, end < 0 ? undefined : end)}\n${' '.repeat(position - start)}^`;
+};
+
+// Live walk-through of a formula: what each reference resolved to, the formula
+// with those values written in, and the result or where it failed
+const TracePanel = ({ formula, trace }: TracePanelProps) => {
+  const { steps, substituted, result } = trace;
+  const labelClass = "block text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1";
+
+  if (!formula.trim()) return null;
+
+  return (
+    <div className="mt-3 rounded-lg border border-slate-200 text-xs divide-y divide-slate-100">
+      {steps.length > 0 && (
+        <div className="px-3 py-2">
+          <span className={labelClass}>References</span>
+          <ul className="space-y-1">
+            {steps.map((step, index) => (
+              <li key={index} className="flex items-center gap-2 min-w-0">
+                <code className="font-mono text-purple-700 truncate">{`{{${step.path}}}`}</code>
+                {step.error ? (
+                  <span className="ml-auto text-red-600 truncate">{step.error}</span>
+                ) : (
+                  <>
+                    <span className="ml-auto font-mono text-slate-700 truncate max-w-[50%]">{stepValue(step)}</span>
+                    <span className="text-[10px] uppercase font-semibold text-slate-400 flex-shrink-0">{step.type}</span>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {steps.length > 0 && (
+        <div className="px-3 py-2">
+          <span className={labelClass}>Becomes</span>
+          <code className="block font-mono text-slate-600 break-all">{substituted}</code>
+        </div>
+      )}
+
+      <div className="px-3 py-2">
+        <span className={labelClass}>Result</span>
+        {result.error ? (
+          <div className="text-red-600">
+            <p className="flex items-center gap-1"><AlertCircle className="w-3.5 h-3.5 flex-shrink-0" /> {result.error}</p>
+            {result.position !== undefined && (
+              <pre className="mt-1 font-mono text-slate-500 whitespace-pre overflow-x-auto">{pointAt(formula, result.position)}</pre>
+            )}
+          </div>
+        ) : (
+          <p className="flex items-center gap-1 font-mono text-emerald-700">
+            <Check className="w-3.5 h-3.5 flex-shrink-0" /> {displayResult(result)}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TracePanel;
@@ -0,0 +1,65 @@
+import { useState, type FormEvent } from 'react';
+import { Lock } from 'lucide-react';
+
+interface UnlockScreenProps {
+  queued: number; // URL API calls waiting for the jar to open
+  onUnlock: (passphrase: string) => Promise<void>;
+}
+
+// Shown instead of the app while an encrypted jar is locked
+const UnlockScreen = ({ queued, onUnlock }: UnlockScreenProps) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-screen items-center justify-center bg-slate-100 font-sans p-6">
+      <form onSubmit={submit} className="bg-white w-full max-w-sm rounded-2xl shadow-xl p-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-blue-600 rounded-lg flex items-center justify-center shadow-md">
+            <Lock className="text-white w-5 h-5" />
+          </div>
+          <div>
+            <h1 className="text-lg font-bold tracking-tight text-slate-900">Data Jar is locked</h1>
+            <p className="text-xs text-slate-500">Enter your passphrase to decrypt your jars.</p>
+          </div>
+        </div>
+        <input
+          type="password"
+          autoFocus
+          placeholder="Passphrase"
+          className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm"
+          value={passphrase}
+          onChange={e => setPassphrase(e.target.value)}
+        />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {queued > 0 && (
+          <p className="text-xs text-amber-700 bg-amber-50 rounded-lg px-3 py-2">
+            {queued} Shortcut action{queued === 1 ? '' : 's'} will run once unlocked.
+          </p>
+        )}
+        <button
+          type="submit"
+          disabled={!passphrase || busy}
+          className="w-full py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-40"
+        >
+          {busy ? 'Unlocking…' : 'Unlock'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default UnlockScreen;
@@ -0,0 +1,36 @@
+import { Calculator } from 'lucide-react';
+import type { Reference } from '../references';
+
+interface UsedByListProps {
+  usages: Reference[];
+  onJump: (expressionId: string) => void;
+}
+
+// The expressions that read a key, each a link to the formula
+const UsedByList = ({ usages, onJump }: UsedByListProps) => {
+  const seen = new Set<string>();
+  const unique = usages.filter(usage => !seen.has(usage.expression.id) && seen.add(usage.expression.id));
+
+  return (
+    <div>
+      <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">Used by</label>
+      {unique.length === 0 ? (
+        <p className="text-sm text-slate-400">No expressions reference this key.</p>
+      ) : (
+        <ul className="space-y-1">
+          {unique.map(usage => (
+            <li key={usage.expression.id}>
+              <button onClick={() => onJump(usage.expression.id)} className="w-full flex items-center gap-2 text-left text-sm px-2 py-1 rounded hover:bg-purple-50">
+                <Calculator className="w-3.5 h-3.5 text-purple-500 flex-shrink-0" />
+                <span className="font-mono text-slate-700 truncate">{usage.expressionPath}</span>
+                <span className="ml-auto font-mono text-xs text-slate-400 truncate max-w-[45%]">{String(usage.expression.value)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default UsedByList;
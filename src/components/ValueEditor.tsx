@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { ExternalLink, Eye, EyeOff } from 'lucide-react';
+import type { DataType } from '../types';
+import { isSafeUrl } from '../dataTypes';
+
+interface ValueEditorProps {
+  type: DataType;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}
+
+const inputClass = "w-full px-3 py-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all text-sm";
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Split a stored date into the local date and time the pickers show
+const dateParts = (value: string): { date: string, time: string } => {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return { date: value, time: '' };
+  const parsed = new Date(value);
+  if (isNaN(parsed.getTime())) return { date: '', time: '' };
+  return {
+    date: `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`,
+    time: `${pad(parsed.getHours())}:${pad(parsed.getMinutes())}`,
+  };
+};
+
+// Without a time the date stays date-only; with one it is stored as an ISO timestamp
+const joinDate = (date: string, time: string) => (time && date ? new Date(`${date}T${time}`).toISOString() : date);
+
+const DateEditor = ({ value, onChange }: { value: string, onChange: (value: string) => void }) => {
+  const { date, time } = dateParts(value);
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input type="date" className={inputClass} value={date} onChange={e => onChange(joinDate(e.target.value, time))} />
+        <input type="time" className={`${inputClass} w-36`} value={time} disabled={!date} onChange={e => onChange(joinDate(date, e.target.value))} />
+      </div>
+      <div className="flex gap-3 text-xs">
+        <button onClick={() => onChange(new Date().toISOString())} className="text-blue-600 hover:underline">Now</button>
+        {time && <button onClick={() => onChange(date)} className="text-slate-500 hover:underline">Clear time</button>}
+      </div>
+    </div>
+  );
+};
+
+const ColorEditor = ({ value, onChange }: { value: string, onChange: (value: string) => void }) => (
+  <div className="flex gap-2">
+    <input
+      type="color"
+      className="h-11 w-14 p-1 bg-slate-50 border border-slate-200 rounded-lg cursor-pointer"
+      value={/^#[0-9a-f]{6}$/i.test(value) ? value : '#000000'}
+      onChange={e => onChange(e.target.value)}
+    />
+    <input type="text" className={`${inputClass} font-mono`} placeholder="#3366ff" value={value} onChange={e => onChange(e.target.value)} />
+  </div>
+);
+
+const UrlEditor = ({ value, onChange }: { value: string, onChange: (value: string) => void }) => (
+  <div className="flex gap-2">
+    <input type="url" className={inputClass} placeholder="https://example.com" value={value} onChange={e => onChange(e.target.value)} />
+    {isSafeUrl(value) && (
+      <a href={value} target="_blank" rel="noreferrer" className="p-2.5 text-slate-500 hover:text-blue-600 hover:bg-slate-100 rounded-lg" title="Open link">
+        <ExternalLink className="w-4 h-4" />
+      </a>
+    )}
+  </div>
+);
+
+const SecretEditor = ({ value, onChange }: { value: string, onChange: (value: string) => void }) => {
+  const [revealed, setRevealed] = useState(false);
+  return (
+    <div className="flex gap-2">
+      <input
+        type={revealed ? 'text' : 'password'}
+        autoComplete="off"
+        className={`${inputClass} font-mono`}
+        placeholder="Secret value"
+        value={value}
+        onChange={e => onChange(e.target.value)}
+      />
+      <button onClick={() => setRevealed(!revealed)} className="p-2.5 text-slate-500 hover:bg-slate-100 rounded-lg" title={revealed ? 'Hide' : 'Show'}>
+        {revealed ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+      </button>
+    </div>
+  );
+};
+
+// Editors for the scalar types that need more than a text box
+const ValueEditor = ({ type, value, onChange }: ValueEditorProps) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  switch (type) {
+    case 'date': return <DateEditor value={text} onChange={onChange} />;
+    case 'color': return <ColorEditor value={text} onChange={onChange} />;
+    case 'url': return <UrlEditor value={text} onChange={onChange} />;
+    case 'secret': return <SecretEditor value={text} onChange={onChange} />;
+    case 'null': return <p className="text-sm text-slate-400 italic">Null has no value to edit.</p>;
+    default: return null;
+  }
+};
+
+export default ValueEditor;
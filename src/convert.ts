@@ -0,0 +1,88 @@
+import type { DataNode, DataType } from './types';
+import { ValueError, parseTypedValue } from './dataTypes';
+import { nodeToJson } from './exporter';
+import { parseImport, parseJson } from './importer';
+import { generateId, renumberList } from './tree';
+
+// --- Type Conversion ---
+//
+// Changing a node's type keeps as much of its value as makes sense. Anything
+// that can't be carried over throws a ValueError naming the value.
+
+const TRUE_WORDS = ['true', 'yes', 'on', '1'];
+const FALSE_WORDS = ['false', 'no', 'off', '0', ''];
+
+const isContainer = (type: DataType) => type === 'dictionary' || type === 'list';
+
+// The node's value as text: containers as JSON, everything else as stored
+const asText = (node: DataNode): string => {
+  if (isContainer(node.type)) return JSON.stringify(nodeToJson(node));
+  if (node.type === 'null') return '';
+  return String(node.value ?? '');
+};
+
+// Text holding a JSON object or array becomes real children
+const parseChildren = (text: string): DataNode[] | null => {
+  try {
+    const parsed = parseJson(text);
+    if (typeof parsed !== 'object' || parsed === null) return null;
+    return Array.isArray(parsed) ? parseImport({ items: parsed }).nodes[0].value : parseImport(parsed).nodes;
+  } catch {
+    return null;
+  }
+};
+
+const toNumber = (node: DataNode): number => {
+  if (node.type === 'boolean') return node.value ? 1 : 0;
+  if (node.type === 'null') return 0;
+  if (node.type === 'date') {
+    const time = Date.parse(String(node.value));
+    if (isNaN(time)) throw new ValueError(`"${node.value}" is not a date`);
+    return time;
+  }
+  if (isContainer(node.type)) throw new ValueError(`A ${node.type} can't become a number`);
+  return parseTypedValue('number', String(node.value).trim()) as number;
+};
+
+const toBoolean = (node: DataNode): boolean => {
+  if (node.type === 'number') return Number(node.value) !== 0;
+  if (node.type === 'null') return false;
+  if (isContainer(node.type)) return (node.value as DataNode[]).length > 0;
+  const word = String(node.value).trim().toLowerCase();
+  if (TRUE_WORDS.includes(word)) return true;
+  if (FALSE_WORDS.includes(word)) return false;
+  throw new ValueError(`"${node.value}" is not true or false`);
+};
+
+const toChildren = (node: DataNode, type: 'dictionary' | 'list'): DataNode[] => {
+  if (isContainer(node.type)) {
+    const children = node.value as DataNode[];
+    return type === 'list' ? renumberList(children) : children;
+  }
+  if (node.type === 'null') return [];
+  const parsed = node.type === 'text' ? parseChildren(String(node.value)) : null;
+  if (parsed) return type === 'list' ? renumberList(parsed) : parsed;
+  // A lone value becomes the first item (or the "value" key)
+  return [{ id: generateId(), name: type === 'list' ? '0' : 'value', type: node.type, value: node.value }];
+};
+
+// Convert a node to another type, keeping its id, name and rules
+export const convertNode = (node: DataNode, type: DataType): DataNode => {
+  if (type === node.type) return node;
+  const convert = (): unknown => {
+    switch (type) {
+      case 'number': return toNumber(node);
+      case 'boolean': return toBoolean(node);
+      case 'dictionary':
+      case 'list': return toChildren(node, type);
+      case 'null': return null;
+      case 'text':
+      case 'secret':
+      case 'expression': return asText(node);
+      default:
+        if (isContainer(node.type)) throw new ValueError(`A ${node.type} can't become a ${type}`);
+        return parseTypedValue(type, asText(node));
+    }
+  };
+  return { ...node, type, value: convert() };
+};
@@ -0,0 +1,140 @@
+import type { DataNode, DataType } from './types';
+
+// --- Data Types ---
+//
+// Scalar types beyond text/number/boolean are stored as plain JSON values so
+// exports stay readable: dates as ISO strings, colors as #rrggbb, URLs as
+// their normalized href, null as null. Secrets are text that is never shown
+// in full.
+
+export const DATA_TYPES: DataType[] = ['text', 'number', 'boolean', 'date', 'color', 'url', 'secret', 'null', 'dictionary', 'list', 'expression'];
+export const SCALAR_TYPES: DataType[] = ['text', 'number', 'boolean', 'date', 'color', 'url', 'secret', 'null'];
+
+export const TYPE_LABELS: Record<DataType, string> = {
+  text: 'Text',
+  number: 'Number',
+  boolean: 'Boolean',
+  date: 'Date',
+  color: 'Color',
+  url: 'URL',
+  secret: 'Secret',
+  null: 'Null',
+  dictionary: 'Dictionary',
+  list: 'List',
+  expression: 'Expression',
+};
+
+export const isDataType = (type: string): type is DataType => (DATA_TYPES as string[]).includes(type);
+
+export class ValueError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValueError';
+  }
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const HEX_COLOR = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// Dates without a time stay date-only; anything else becomes a full ISO timestamp
+export const normalizeDate = (raw: string): string => {
+  const text = raw.trim();
+  if (text.toLowerCase() === 'now') return new Date().toISOString();
+  if (DATE_ONLY.test(text) && !isNaN(Date.parse(text))) return text;
+  const time = Date.parse(text);
+  if (isNaN(time)) throw new ValueError(`"${raw}" is not a date`);
+  return new Date(time).toISOString();
+};
+
+export const normalizeColor = (raw: string): string => {
+  const match = HEX_COLOR.exec(raw.trim());
+  if (!match) throw new ValueError(`"${raw}" is not a hex color`);
+  const hex = match[1].toLowerCase();
+  return `#${hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex}`;
+};
+
+// Schemes a stored link may use; others (javascript:, data:, ...) could run script when clicked
+const SAFE_URL_SCHEMES = ['http:', 'https:', 'mailto:', 'tel:', 'sms:', 'ftp:'];
+
+const parseUrl = (raw: string): URL | null => {
+  try {
+    return new URL(raw.trim());
+  } catch {
+    return null;
+  }
+};
+
+export const isSafeUrl = (raw: string) => SAFE_URL_SCHEMES.includes(parseUrl(raw)?.protocol ?? '');
+
+export const normalizeUrl = (raw: string): string => {
+  const url = parseUrl(raw);
+  if (!url) throw new ValueError(`"${raw}" is not a URL`);
+  if (!SAFE_URL_SCHEMES.includes(url.protocol)) throw new ValueError(`"${url.protocol}" links are not allowed`);
+  return url.href;
+};
+
+// Turn user or URL API input into the stored value for a type
+export const parseTypedValue = (type: DataType, raw: unknown): unknown => {
+  const text = typeof raw === 'string' ? raw : String(raw ?? '');
+  switch (type) {
+    case 'number': {
+      const num = typeof raw === 'number' ? raw : parseFloat(text);
+      if (isNaN(num)) throw new ValueError(`"${text}" is not a number`);
+      return num;
+    }
+    case 'boolean': return raw === true || text === 'true';
+    case 'date': return normalizeDate(text);
+    case 'color': return normalizeColor(text);
+    case 'url': return normalizeUrl(text);
+    case 'null': return null;
+    case 'dictionary':
+    case 'list': return [];
+    default: return text;
+  }
+};
+
+// Starting value for a new node of a type
+export const defaultValue = (type: DataType): unknown => {
+  switch (type) {
+    case 'boolean': return false;
+    case 'date': return new Date().toISOString().slice(0, 10);
+    case 'color': return '#000000';
+    case 'null': return null;
+    case 'dictionary':
+    case 'list': return [];
+    default: return '';
+  }
+};
+
+export const SECRET_MASK = '••••••••';
+
+// How a scalar reads in rows and diffs
+export const displayValue = (node: DataNode): string => {
+  switch (node.type) {
+    case 'secret': return node.value ? SECRET_MASK : '';
+    case 'null': return 'null';
+    case 'date': {
+      const text = String(node.value ?? '');
+      const time = Date.parse(text);
+      if (isNaN(time)) return text;
+      return DATE_ONLY.test(text) ? new Date(`${text}T00:00:00`).toLocaleDateString() : new Date(time).toLocaleString();
+    }
+    default: return String(node.value ?? '');
+  }
+};
+
+// Imported strings that are unmistakably dates, colors or links keep that type
+export const inferStringType = (value: string): DataType => {
+  if (ISO_DATE.test(value) && !isNaN(Date.parse(value))) return 'date';
+  if (value.startsWith('#') && HEX_COLOR.test(value)) return 'color';
+  if (/^https?:\/\/\S+$/i.test(value)) {
+    try {
+      new URL(value);
+      return 'url';
+    } catch {
+      return 'text';
+    }
+  }
+  return 'text';
+};
@@ -0,0 +1,187 @@
+import type { DataNode } from './types';
+import { resolveAnchor } from './tree';
+import { appendPath, stepTo } from './paths';
+import { evaluateExpression, isItemPath, parseExpression, type AstNode, type EvaluationResult } from './expression';
+
+// --- Expression Dependency Graph ---
+//
+// Every `expression` node in the tree becomes a vertex; an edge A -> B means
+// A's formula references B (directly, or through a container that holds B).
+// Expressions are evaluated in topological order so each one sees its
+// dependencies' results, and nodes caught in a cycle get a cycle error.
+
+interface ExpressionVertex {
+  node: DataNode;
+  path: string;
+  refs: string[]; // Reference paths as written in the formula
+  deps: string[]; // Ids of expression nodes this one depends on
+  volatile: boolean; // Calls now(), so it can never be reused from cache
+}
+
+// Walk the tree and collect every expression node with its path
+export const collectExpressions = (nodes: DataNode[], prefix = '', inList = false): { node: DataNode, path: string }[] =>
+  nodes.flatMap((node, index) => {
+    const path = appendPath(prefix, stepTo(node, index, inList));
+    if (node.type === 'expression') return [{ node, path }];
+    if (node.type === 'dictionary' || node.type === 'list') return collectExpressions(node.value as DataNode[], path, node.type === 'list');
+    return [];
+  });
+
+// All `{{path}}` references and function names used in a parsed formula
+const walkAst = (ast: AstNode, refs: string[], calls: string[]) => {
+  switch (ast.kind) {
+    case 'ref': if (!isItemPath(ast.path)) refs.push(ast.path); break;
+    case 'unary': walkAst(ast.operand, refs, calls); break;
+    case 'binary': walkAst(ast.left, refs, calls); walkAst(ast.right, refs, calls); break;
+    case 'ternary': walkAst(ast.test, refs, calls); walkAst(ast.then, refs, calls); walkAst(ast.otherwise, refs, calls); break;
+    case 'call': calls.push(ast.name); ast.args.forEach(arg => walkAst(arg, refs, calls)); break;
+  }
+};
+
+const expressionIdsWithin = (node: DataNode): string[] => {
+  if (node.type === 'expression') return [node.id];
+  if (node.type === 'dictionary' || node.type === 'list') return (node.value as DataNode[]).flatMap(expressionIdsWithin);
+  return [];
+};
+
+const buildVertices = (root: DataNode[]): Map<string, ExpressionVertex> => {
+  const vertices = new Map<string, ExpressionVertex>();
+  collectExpressions(root).forEach(({ node, path }) => {
+    const refs: string[] = [];
+    const calls: string[] = [];
+    try {
+      walkAst(parseExpression(String(node.value ?? '')), refs, calls);
+    } catch {
+      // Parse errors surface when the formula is evaluated
+    }
+    // A wildcard reference depends on everything in the container it expands
+    const deps = refs.flatMap(ref => {
+      const target = resolveAnchor(root, ref);
+      return target ? expressionIdsWithin(target) : [];
+    });
+    vertices.set(node.id, { node, path, refs, deps: [...new Set(deps)], volatile: calls.includes('now') });
+  });
+  return vertices;
+};
+
+// Tarjan's algorithm: strongly connected components that form a cycle
+const findCycles = (vertices: Map<string, ExpressionVertex>): string[][] => {
+  const indexOf = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  const connect = (id: string) => {
+    indexOf.set(id, counter);
+    lowLink.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const dep of vertices.get(id)!.deps) {
+      if (!indexOf.has(dep)) {
+        connect(dep);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(dep)!));
+      } else if (onStack.has(dep)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, indexOf.get(dep)!));
+      }
+    }
+
+    if (lowLink.get(id) === indexOf.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+
+      const selfLoop = component.length === 1 && vertices.get(id)!.deps.includes(id);
+      if (component.length > 1 || selfLoop) cycles.push(component.reverse());
+    }
+  };
+
+  vertices.forEach((_vertex, id) => {
+    if (!indexOf.has(id)) connect(id);
+  });
+  return cycles;
+};
+
+// Dependencies first: a depth-first post-order over the acyclic part of the graph
+const topologicalOrder = (vertices: Map<string, ExpressionVertex>, cyclic: Set<string>): string[] => {
+  const order: string[] = [];
+  const visited = new Set<string>(cyclic);
+
+  const visit = (id: string) => {
+    if (visited.has(id)) return;
+    visited.add(id);
+    vertices.get(id)!.deps.forEach(visit);
+    order.push(id);
+  };
+
+  vertices.forEach((_vertex, id) => visit(id));
+  return order;
+};
+
+// --- Incremental Evaluation ---
+
+interface CacheEntry {
+  formula: string;
+  targets: (DataNode | undefined)[]; // Nodes the refs resolved to (or hang off) last time
+  depResults: EvaluationResult[];
+  result: EvaluationResult;
+}
+
+// Creates an evaluator that remembers the previous pass. Because the tree is
+// updated immutably, a referenced node that kept its object identity has not
+// changed, so only expressions downstream of an actual change re-evaluate.
+export const createExpressionGraph = () => {
+  let cache = new Map<string, CacheEntry>();
+
+  const evaluate = (root: DataNode[]): Map<string, EvaluationResult> => {
+    const vertices = buildVertices(root);
+    const cycles = findCycles(vertices);
+    const results = new Map<string, EvaluationResult>();
+    const nextCache = new Map<string, CacheEntry>();
+
+    const cyclic = new Set<string>();
+    cycles.forEach(cycle => {
+      const paths = cycle.map(id => vertices.get(id)!.path);
+      const chain = [...paths, paths[0]].join(' → ');
+      cycle.forEach(id => {
+        cyclic.add(id);
+        results.set(id, { result: 'ERR', error: `Circular reference: ${chain}`, cycle: paths });
+      });
+    });
+
+    const lookup = (node: DataNode): EvaluationResult =>
+      results.get(node.id) ?? { result: 'ERR', error: 'Circular reference' };
+
+    topologicalOrder(vertices, cyclic).forEach(id => {
+      const vertex = vertices.get(id)!;
+      const formula = String(vertex.node.value ?? '');
+      const targets = vertex.refs.map(ref => resolveAnchor(root, ref));
+      const depResults = vertex.deps.map(dep => results.get(dep)!);
+
+      const previous = cache.get(id);
+      const unchanged = previous
+        && !vertex.volatile
+        && previous.formula === formula
+        && previous.targets.length === targets.length
+        && previous.targets.every((target, i) => target === targets[i])
+        && previous.depResults.length === depResults.length
+        && previous.depResults.every((dep, i) => dep === depResults[i]);
+
+      const result = unchanged ? previous.result : evaluateExpression(formula, root, lookup);
+      results.set(id, result);
+      nextCache.set(id, { formula, targets, depResults, result });
+    });
+
+    cache = nextCache;
+    return results;
+  };
+
+  return { evaluate };
+};
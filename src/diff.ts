@@ -0,0 +1,87 @@
+import type { DataNode } from './types';
+import { rulesEqual } from './schema';
+
+// --- Structural Diff ---
+//
+// Compares two sibling lists key by key. Containers present on both sides are
+// descended into; anything else that differs is reported at the highest level
+// where it diverges, so a removed dictionary shows up once rather than per leaf.
+
+export type DiffKind = 'added' | 'changed' | 'removed';
+
+export interface DiffEntry {
+  kind: DiffKind;
+  path: string[]; // Key names from the compared root
+  before?: DataNode;
+  after?: DataNode;
+}
+
+const isContainer = (node: DataNode) => node.type === 'dictionary' || node.type === 'list';
+
+// Content and rule equality, ignoring ids
+export const nodesEqual = (a: DataNode, b: DataNode): boolean => {
+  if (a.name !== b.name || a.type !== b.type || !rulesEqual(a.rules, b.rules)) return false;
+  if (isContainer(a)) {
+    const left = a.value as DataNode[];
+    const right = b.value as DataNode[];
+    return left.length === right.length && left.every((child, i) => nodesEqual(child, right[i]));
+  }
+  return a.value === b.value;
+};
+
+export const diffNodes = (before: DataNode[], after: DataNode[], prefix: string[] = []): DiffEntry[] => {
+  const entries: DiffEntry[] = [];
+  const names = [...new Set([...before.map(n => n.name), ...after.map(n => n.name)])];
+
+  names.forEach(name => {
+    const a = before.find(n => n.name === name);
+    const b = after.find(n => n.name === name);
+    const path = [...prefix, name];
+
+    if (!a && b) entries.push({ kind: 'added', path, after: b });
+    else if (a && !b) entries.push({ kind: 'removed', path, before: a });
+    else if (a && b) {
+      if (isContainer(a) && a.type === b.type) {
+        entries.push(...diffNodes(a.value as DataNode[], b.value as DataNode[], path));
+      } else if (!nodesEqual(a, b)) {
+        entries.push({ kind: 'changed', path, before: a, after: b });
+      }
+    }
+  });
+
+  return entries;
+};
+
+// Replace (or with null, remove) the node at `path`, inserting at `index` when it is new
+const replaceAt = (nodes: DataNode[], path: string[], replacement: DataNode | null, index?: number): DataNode[] => {
+  const [name, ...rest] = path;
+  const position = nodes.findIndex(n => n.name === name);
+
+  if (rest.length > 0) {
+    if (position < 0) return nodes;
+    const parent = nodes[position];
+    return nodes.map((n, i) => (i === position ? { ...parent, value: replaceAt(parent.value as DataNode[], rest, replacement, index) } : n));
+  }
+
+  if (position >= 0) {
+    return replacement
+      ? nodes.map((n, i) => (i === position ? replacement : n))
+      : nodes.filter((_n, i) => i !== position);
+  }
+  if (!replacement) return nodes;
+  const at = Math.min(index ?? nodes.length, nodes.length);
+  return [...nodes.slice(0, at), replacement, ...nodes.slice(at)];
+};
+
+// Undo the given entries on `after`, leaving everything else from `after` in place
+export const revertEntries = (after: DataNode[], before: DataNode[], rejected: DiffEntry[]): DataNode[] =>
+  rejected.reduce((nodes, entry) => {
+    if (entry.kind === 'added') return replaceAt(nodes, entry.path, null);
+    // Put removed keys back where they were among their original siblings
+    const siblings = entry.path.slice(0, -1).reduce<DataNode[]>(
+      (level, name) => (level.find(n => n.name === name)?.value as DataNode[]) ?? [],
+      before
+    );
+    const originalIndex = siblings.findIndex(n => n.name === entry.path[entry.path.length - 1]);
+    return replaceAt(nodes, entry.path, entry.before!, originalIndex);
+  }, after);
@@ -0,0 +1,292 @@
+import type { StorageAdapter } from './storage';
+
+// --- Encryption ---
+//
+// Opt-in: everything the jar holds is encrypted with AES-GCM under a key
+// derived from a passphrase (PBKDF2). Only the salt and a check value are
+// stored in the clear. While unlocked the key lives in memory; locking drops
+// it along with the decrypted cache below.
+//
+// Jar trees, history, snapshots and change logs are encrypted by wrapping the
+// storage adapter; the sync state, still in localStorage, goes through
+// `secureStorage`, a drop-in for localStorage that keeps decrypted copies in
+// memory so reads stay synchronous.
+
+export interface EncryptedPayload {
+  iv: string; // Base64
+  data: string; // Base64 AES-GCM ciphertext of the JSON value
+}
+
+export interface EncryptionConfig {
+  salt: string; // Base64
+  iterations: number;
+  check: EncryptedPayload; // Decrypts to CHECK_VALUE with the right passphrase
+  autoLockMinutes: number; // 0 disables auto-lock
+}
+
+export class EncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionError';
+  }
+}
+
+const CONFIG_KEY = 'data-jar-encryption';
+const CHECK_VALUE = 'data-jar';
+const PBKDF2_ITERATIONS = 310000;
+export const AUTO_LOCK_OPTIONS = [0, 1, 5, 15, 60];
+
+// Keys whose values are jar content and so get encrypted (see jars.ts)
+const PROTECTED_PREFIXES = ['data-jar-storage:', 'data-jar-history:', 'data-jar-snapshots:', 'data-jar-sync:', 'data-jar-changes:'];
+const isProtected = (key: string) => PROTECTED_PREFIXES.some(prefix => key.startsWith(prefix));
+
+// Chunked so large trees don't overflow the argument limit of fromCharCode
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: string, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encryptWith = async (key: CryptoKey, value: unknown): Promise<EncryptedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+const decryptWith = async (key: CryptoKey, payload: EncryptedPayload): Promise<unknown> => {
+  try {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data));
+    return JSON.parse(new TextDecoder().decode(data));
+  } catch {
+    throw new EncryptionError('Wrong passphrase or damaged data');
+  }
+};
+
+export const isEncryptedPayload = (value: unknown): value is EncryptedPayload =>
+  typeof value === 'object' && value !== null && typeof (value as EncryptedPayload).iv === 'string' && typeof (value as EncryptedPayload).data === 'string';
+
+export const loadEncryptionConfig = (): EncryptionConfig | null => {
+  const saved = localStorage.getItem(CONFIG_KEY);
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to load encryption settings", e);
+    return null;
+  }
+};
+
+const saveEncryptionConfig = (config: EncryptionConfig | null) => {
+  if (config) localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+  else localStorage.removeItem(CONFIG_KEY);
+};
+
+// --- Session ---
+
+let sessionKey: CryptoKey | null = null;
+// While everything is rewritten, the key (or none) adapter writes use instead
+let rewriteTarget: { key: CryptoKey | null } | null = null;
+const cache = new Map<string, string>();
+let pendingWrites = Promise.resolve();
+let reportWriteError: (err: unknown) => void = err => console.error("Encrypted write failed", err);
+
+export const isEncryptionEnabled = () => loadEncryptionConfig() !== null;
+export const isLocked = () => isEncryptionEnabled() && sessionKey === null;
+
+export const onEncryptedWriteError = (handler: (err: unknown) => void) => {
+  reportWriteError = handler;
+};
+
+const protectedKeys = () => {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && isProtected(key)) keys.push(key);
+  }
+  return keys;
+};
+
+// Decrypt the protected localStorage records into the cache
+const fillCache = async (key: CryptoKey) => {
+  cache.clear();
+  for (const name of protectedKeys()) {
+    const saved = localStorage.getItem(name);
+    if (saved === null) continue;
+    const parsed = JSON.parse(saved);
+    cache.set(name, isEncryptedPayload(parsed) ? String(await decryptWith(key, parsed)) : saved);
+  }
+};
+
+export const unlock = async (passphrase: string) => {
+  const config = loadEncryptionConfig();
+  if (!config) return;
+  const key = await deriveKey(passphrase, config.salt, config.iterations);
+  if (await decryptWith(key, config.check) !== CHECK_VALUE) throw new EncryptionError('Wrong passphrase');
+  await fillCache(key);
+  sessionKey = key;
+};
+
+// Wait for queued writes, then forget the key and everything decrypted with it
+export const lock = async () => {
+  await pendingWrites;
+  sessionKey = null;
+  cache.clear();
+};
+
+export const updateAutoLock = (autoLockMinutes: number) => {
+  const config = loadEncryptionConfig();
+  if (config) saveEncryptionConfig({ ...config, autoLockMinutes });
+};
+
+// --- Storage ---
+
+// A localStorage stand-in: protected keys are encrypted on their way out when
+// encryption is on. Writes are queued so they land in order.
+export const secureStorage = {
+  getItem: (name: string): string | null => {
+    if (!isProtected(name) || !isEncryptionEnabled()) return localStorage.getItem(name);
+    return cache.get(name) ?? null;
+  },
+  setItem: (name: string, value: string) => {
+    if (!isProtected(name) || !isEncryptionEnabled()) {
+      localStorage.setItem(name, value);
+      return;
+    }
+    const key = sessionKey;
+    if (!key) throw new EncryptionError('The jar is locked');
+    cache.set(name, value);
+    pendingWrites = pendingWrites
+      .then(async () => localStorage.setItem(name, JSON.stringify(await encryptWith(key, value))))
+      .catch(reportWriteError);
+  },
+  removeItem: (name: string) => {
+    cache.delete(name);
+    localStorage.removeItem(name);
+  },
+};
+
+// Encrypts values written through `inner` while a key is set; reads decrypt
+// whatever is encrypted and pass plaintext (written before encryption) through
+export const createEncryptedAdapter = (inner: StorageAdapter): StorageAdapter => ({
+  label: inner.label,
+  read: async keys => {
+    const values = await inner.read(keys);
+    return Promise.all(values.map(value => {
+      if (!isEncryptedPayload(value)) return value;
+      if (!sessionKey) throw new EncryptionError('The jar is locked');
+      return decryptWith(sessionKey, value);
+    }));
+  },
+  write: async ({ set = {}, remove }) => {
+    const key = rewriteTarget ? rewriteTarget.key : sessionKey;
+    if (!key && !rewriteTarget && isEncryptionEnabled()) throw new EncryptionError('The jar is locked');
+    const entries = await Promise.all(Object.entries(set).map(async ([name, value]) => [name, key ? await encryptWith(key, value) : value]));
+    return inner.write({ set: Object.fromEntries(entries), remove });
+  },
+  keys: prefix => inner.keys(prefix),
+});
+
+// Rewrite every record under the next key (or none). Nothing switches until
+// all of it is written: if a write fails (a full store, most likely), the
+// records are put back and the old key and config stay, so the jar still opens.
+const rewriteAll = async (adapter: StorageAdapter, nextKey: CryptoKey | null, nextConfig: EncryptionConfig | null) => {
+  await pendingWrites;
+  const names = await adapter.keys('');
+  const values = await adapter.read(names);
+  const records = protectedKeys()
+    .map(name => [name, secureStorage.getItem(name)] as const)
+    .filter((record): record is readonly [string, string] => record[1] !== null);
+  const rewritten = await Promise.all(records.map(async ([name, value]) =>
+    [name, nextKey ? JSON.stringify(await encryptWith(nextKey, value)) : value] as const));
+
+  const previous = records.map(([name]) => [name, localStorage.getItem(name)] as const);
+  rewriteTarget = { key: nextKey };
+  try {
+    rewritten.forEach(([name, value]) => localStorage.setItem(name, value));
+    await adapter.write({ set: Object.fromEntries(names.map((name, i) => [name, values[i]])) });
+  } catch (err) {
+    previous.forEach(([name, value]) => {
+      if (value === null) localStorage.removeItem(name);
+      else localStorage.setItem(name, value);
+    });
+    throw err;
+  } finally {
+    rewriteTarget = null;
+  }
+
+  sessionKey = nextKey;
+  saveEncryptionConfig(nextConfig);
+  cache.clear();
+  if (nextKey) records.forEach(([name, value]) => cache.set(name, value));
+};
+
+const createConfig = async (passphrase: string, autoLockMinutes: number) => {
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(16)));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const config: EncryptionConfig = { salt, iterations: PBKDF2_ITERATIONS, check: await encryptWith(key, CHECK_VALUE), autoLockMinutes };
+  return { key, config };
+};
+
+export const enableEncryption = async (passphrase: string, adapter: StorageAdapter, autoLockMinutes = 5) => {
+  const { key, config } = await createConfig(passphrase, autoLockMinutes);
+  await rewriteAll(adapter, key, config);
+};
+
+const checkPassphrase = async (passphrase: string) => {
+  const config = loadEncryptionConfig();
+  if (!config) throw new EncryptionError('Encryption is off');
+  const key = await deriveKey(passphrase, config.salt, config.iterations);
+  if (await decryptWith(key, config.check) !== CHECK_VALUE) throw new EncryptionError('Wrong passphrase');
+  return config;
+};
+
+// Re-encrypt everything under a key from the new passphrase (and a fresh salt)
+export const changePassphrase = async (current: string, next: string, adapter: StorageAdapter) => {
+  const old = await checkPassphrase(current);
+  const { key, config } = await createConfig(next, old.autoLockMinutes);
+  await rewriteAll(adapter, key, config);
+};
+
+export const disableEncryption = async (passphrase: string, adapter: StorageAdapter) => {
+  await checkPassphrase(passphrase);
+  await rewriteAll(adapter, null, null);
+};
+
+// --- Exports ---
+
+export const ENCRYPTED_FORMAT = 'data-jar-encrypted';
+
+export interface EncryptedExport {
+  format: typeof ENCRYPTED_FORMAT;
+  version: 1;
+  salt: string;
+  iterations: number;
+  payload: EncryptedPayload;
+}
+
+export const isEncryptedExport = (obj: unknown): obj is EncryptedExport =>
+  typeof obj === 'object' && obj !== null && (obj as Record<string, unknown>).format === ENCRYPTED_FORMAT;
+
+// With encryption on, exports are sealed with the jar's passphrase; otherwise passed through
+export const protectExport = async (value: unknown): Promise<unknown> => {
+  const config = loadEncryptionConfig();
+  if (!config || !sessionKey) return value;
+  return { format: ENCRYPTED_FORMAT, version: 1, salt: config.salt, iterations: config.iterations, payload: await encryptWith(sessionKey, value) };
+};
+
+export const openExport = async (file: EncryptedExport, passphrase: string): Promise<unknown> => {
+  const key = await deriveKey(passphrase, file.salt, file.iterations);
+  return decryptWith(key, file.payload);
+};
@@ -0,0 +1,19 @@
+import type { DataNode } from './types';
+
+// --- Export ---
+
+// Plain JSON for a single node: dictionaries become objects, lists arrays, anything else its raw value
+export const nodeToJson = (node: DataNode): unknown => {
+  if (node.type === 'dictionary' && Array.isArray(node.value)) return exportData(node.value);
+  if (node.type === 'list' && Array.isArray(node.value)) return (node.value as DataNode[]).map(nodeToJson);
+  return node.value;
+};
+
+// Recursive function to get a flat object representation for Export
+export const exportData = (nodes: DataNode[]): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  nodes.forEach(node => {
+    result[node.name] = nodeToJson(node);
+  });
+  return result;
+};
@@ -0,0 +1,570 @@
+import type { DataNode } from './types';
+import { resolveAll, resolvePath } from './tree';
+import { hasWildcard, parsePath, PathError, type PathStep } from './paths';
+import { SECRET_MASK } from './dataTypes';
+
+// --- Expression Language ---
+//
+// Formulas are tokenized, parsed into an AST and evaluated by a small
+// interpreter. Nothing here ever reaches `eval` or `Function`: the only things
+// a formula can touch are literals, `{{path}}` references and the built-ins below.
+//
+//   {{price}} * (1 + {{tax_rate}})
+//   "Hello " + upper({{name}})
+//   {{count}} > 10 ? "busy" : "quiet"
+//   sum({{expenses.*.amount}})
+//   count(filter({{expenses}}, {{@.category}} == "food"))
+//
+// A wildcard reference reads a list of values. Inside filter() and map(),
+// `{{@}}` is the current item and `{{@.amount}}` a key within it.
+
+export type Value = number | string | boolean | null | Value[] | { [key: string]: Value };
+
+export class ExpressionError extends Error {
+  position: number;
+  reason: string; // The message without its position
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position + 1}`);
+    this.name = 'ExpressionError';
+    this.position = position;
+    this.reason = message;
+  }
+}
+
+// --- Tokenizer ---
+
+// `{{@}}`, `{{@.key}}` and `{{@[0]}}` address the current item of filter() or map()
+export const isItemPath = (path: string) => path === '@' || path.startsWith('@.') || path.startsWith('@[');
+
+const parseItemPath = (path: string): PathStep[] => (path === '@' ? [] : parsePath(path.slice(path[1] === '.' ? 2 : 1)));
+
+// Reject malformed reference paths while tokenizing, pointing at the offending character
+const checkReference = (path: string, pos: number) => {
+  const item = isItemPath(path);
+  let steps: PathStep[];
+  try {
+    steps = item ? parseItemPath(path) : parsePath(path);
+  } catch (err) {
+    if (!(err instanceof PathError)) throw err;
+    const offset = item ? (path[1] === '.' ? 2 : 1) : 0;
+    throw new ExpressionError(`Invalid reference: ${err.message}`, pos + offset + err.position);
+  }
+  if (!item && steps[0].kind === 'wildcard') throw new ExpressionError('A wildcard needs a list or dictionary before it', pos);
+};
+
+type TokenKind = 'number' | 'string' | 'ref' | 'ident' | 'op' | 'eof';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  pos: number;
+  value?: number | string;
+}
+
+// Longest operators first so "<=" wins over "<"
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '+', '-', '*', '/', '%', '<', '>', '!', '?', ':', '(', ')', ','];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // {{path}} reference
+    if (source.startsWith('{{', i)) {
+      const end = source.indexOf('}}', i + 2);
+      if (end === -1) throw new ExpressionError('Unclosed reference "{{"', i);
+      const inner = source.slice(i + 2, end);
+      const path = inner.trim();
+      if (!path) throw new ExpressionError('Empty reference', i);
+      checkReference(path, i + 2 + inner.indexOf(path));
+      tokens.push({ kind: 'ref', text: source.slice(i, end + 2), pos: i, value: path });
+      i = end + 2;
+      continue;
+    }
+
+    // Number literal: 12, 3.5, .5, 1e3
+    const numMatch = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(i));
+    if (numMatch) {
+      tokens.push({ kind: 'number', text: numMatch[0], pos: i, value: Number(numMatch[0]) });
+      i += numMatch[0].length;
+      continue;
+    }
+
+    // String literal with either quote style and backslash escapes
+    if (ch === '"' || ch === "'") {
+      let j = i + 1;
+      let str = '';
+      while (j < source.length && source[j] !== ch) {
+        if (source[j] === '\\' && j + 1 < source.length) {
+          const next = source[j + 1];
+          str += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+          j += 2;
+        } else {
+          str += source[j];
+          j++;
+        }
+      }
+      if (j >= source.length) throw new ExpressionError('Unterminated string', i);
+      tokens.push({ kind: 'string', text: source.slice(i, j + 1), pos: i, value: str });
+      i = j + 1;
+      continue;
+    }
+
+    const identMatch = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (identMatch) {
+      tokens.push({ kind: 'ident', text: identMatch[0], pos: i });
+      i += identMatch[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find(o => source.startsWith(o, i));
+    if (op) {
+      tokens.push({ kind: 'op', text: op, pos: i });
+      i += op.length;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character '${ch}'`, i);
+  }
+
+  tokens.push({ kind: 'eof', text: '', pos: source.length });
+  return tokens;
+};
+
+// The `{{path}}` references in a formula with their spans in the source (end exclusive).
+// A formula that doesn't tokenize has none; `{{@...}}` item references aren't keys
+// and are left out.
+export const scanReferences = (source: string): { path: string, start: number, end: number }[] => {
+  try {
+    return tokenize(source)
+      .filter(token => token.kind === 'ref' && !isItemPath(token.value as string))
+      .map(token => ({ path: token.value as string, start: token.pos, end: token.pos + token.text.length }));
+  } catch {
+    return [];
+  }
+};
+
+// --- Parser ---
+
+export type AstNode =
+  | { kind: 'literal'; value: Value; pos: number }
+  | { kind: 'ref'; path: string; pos: number }
+  | { kind: 'unary'; op: string; operand: AstNode; pos: number }
+  | { kind: 'binary'; op: string; left: AstNode; right: AstNode; pos: number }
+  | { kind: 'ternary'; test: AstNode; then: AstNode; otherwise: AstNode; pos: number }
+  | { kind: 'call'; name: string; args: AstNode[]; pos: number };
+
+// Binary operators by precedence, loosest first
+const BINARY_LEVELS = [['||'], ['&&'], ['==', '!='], ['<', '<=', '>', '>='], ['+', '-'], ['*', '/', '%']];
+
+export const parseExpression = (source: string): AstNode => {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const isOp = (text: string) => peek().kind === 'op' && peek().text === text;
+
+  const describe = (token: Token) => (token.kind === 'eof' ? 'end of formula' : `'${token.text}'`);
+
+  const expect = (text: string) => {
+    if (!isOp(text)) throw new ExpressionError(`Expected '${text}' but found ${describe(peek())}`, peek().pos);
+    return next();
+  };
+
+  const parseTernary = (): AstNode => {
+    const test = parseBinary(0);
+    if (!isOp('?')) return test;
+    const { pos } = next();
+    const then = parseTernary();
+    expect(':');
+    const otherwise = parseTernary();
+    return { kind: 'ternary', test, then, otherwise, pos };
+  };
+
+  const parseBinary = (level: number): AstNode => {
+    if (level === BINARY_LEVELS.length) return parseUnary();
+    let left = parseBinary(level + 1);
+    while (peek().kind === 'op' && BINARY_LEVELS[level].includes(peek().text)) {
+      const { text, pos } = next();
+      const right = parseBinary(level + 1);
+      left = { kind: 'binary', op: text, left, right, pos };
+    }
+    return left;
+  };
+
+  const parseUnary = (): AstNode => {
+    if (isOp('!') || isOp('-') || isOp('+')) {
+      const { text, pos } = next();
+      return { kind: 'unary', op: text, operand: parseUnary(), pos };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): AstNode => {
+    const token = next();
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value as Value, pos: token.pos };
+      case 'ref':
+        return { kind: 'ref', path: token.value as string, pos: token.pos };
+      case 'ident': {
+        if (token.text === 'true') return { kind: 'literal', value: true, pos: token.pos };
+        if (token.text === 'false') return { kind: 'literal', value: false, pos: token.pos };
+        if (token.text === 'null') return { kind: 'literal', value: null, pos: token.pos };
+        if (!isOp('(')) {
+          throw new ExpressionError(`Unknown name '${token.text}' (use {{${token.text}}} to reference a key)`, token.pos);
+        }
+        if (!Object.hasOwn(FUNCTIONS, token.text)) throw new ExpressionError(`Unknown function '${token.text}'`, token.pos);
+        next();
+        const args: AstNode[] = [];
+        if (!isOp(')')) {
+          args.push(parseTernary());
+          while (isOp(',')) {
+            next();
+            args.push(parseTernary());
+          }
+        }
+        expect(')');
+        return { kind: 'call', name: token.text, args, pos: token.pos };
+      }
+      case 'op':
+        if (token.text === '(') {
+          const inner = parseTernary();
+          expect(')');
+          return inner;
+        }
+        throw new ExpressionError(`Unexpected ${describe(token)}`, token.pos);
+      default:
+        throw new ExpressionError('Unexpected end of formula', token.pos);
+    }
+  };
+
+  const ast = parseTernary();
+  if (peek().kind !== 'eof') throw new ExpressionError(`Unexpected ${describe(peek())}`, peek().pos);
+  return ast;
+};
+
+// --- Values ---
+
+export const typeOfValue = (value: Value): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'list';
+  if (typeof value === 'object') return 'dictionary';
+  if (typeof value === 'string') return 'text';
+  return typeof value;
+};
+
+export const formatValue = (value: Value): string => {
+  if (value === null) return 'null';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const isTruthy = (value: Value): boolean => {
+  if (Array.isArray(value)) return value.length > 0;
+  if (value !== null && typeof value === 'object') return Object.keys(value).length > 0;
+  return Boolean(value);
+};
+
+const valuesEqual = (a: Value, b: Value): boolean => {
+  if (typeof a === 'object' || typeof b === 'object') return JSON.stringify(a) === JSON.stringify(b);
+  return a === b;
+};
+
+// Convert a stored node into a formula value. Expression nodes (including ones
+// nested inside a referenced container) are resolved through `expressionValue`.
+export const nodeToValue = (node: DataNode, expressionValue: (node: DataNode) => Value): Value => {
+  switch (node.type) {
+    case 'number': return Number(node.value);
+    case 'boolean': return Boolean(node.value);
+    case 'null': return null;
+    case 'expression': return expressionValue(node);
+    case 'list': return (node.value as DataNode[]).map(child => nodeToValue(child, expressionValue));
+    case 'dictionary': {
+      const result: { [key: string]: Value } = {};
+      (node.value as DataNode[]).forEach(child => { result[child.name] = nodeToValue(child, expressionValue); });
+      return result;
+    }
+    default: return String(node.value ?? '');
+  }
+};
+
+// Follow path steps inside a formula value. Missing keys and positions give
+// null, so a condition like {{@.category}} == "food" is simply false for items
+// without a category.
+const valueAt = (value: Value, [step, ...rest]: PathStep[]): Value => {
+  if (!step) return value;
+  if (step.kind === 'wildcard') {
+    const children = Array.isArray(value) ? value : value !== null && typeof value === 'object' ? Object.values(value) : [];
+    return children.map(child => valueAt(child, rest));
+  }
+  let child: Value | undefined;
+  if (Array.isArray(value)) {
+    const position = step.kind === 'index' ? step.index : /^\d+$/.test(step.name) ? parseInt(step.name) : NaN;
+    child = value[position < 0 ? value.length + position : position];
+  } else if (value !== null && typeof value === 'object' && step.kind === 'name' && Object.hasOwn(value, step.name)) {
+    child = value[step.name];
+  }
+  return child === undefined ? null : valueAt(child, rest);
+};
+
+// --- Built-in Functions ---
+
+type BuiltIn = (args: Value[], pos: number) => Value;
+
+const toNumber = (value: Value, fn: string, pos: number): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  throw new ExpressionError(`${fn}() expects a number, got ${typeOfValue(value)}`, pos);
+};
+
+const toText = (value: Value, fn: string, pos: number): string => {
+  if (typeof value === 'string') return value;
+  throw new ExpressionError(`${fn}() expects text, got ${typeOfValue(value)}`, pos);
+};
+
+// Variadic numeric functions accept lists as well: sum({{prices}}), max(1, {{limit}})
+const numbersOf = (args: Value[], fn: string, pos: number): number[] =>
+  args.flatMap(arg => (Array.isArray(arg) ? arg : [arg])).map(v => toNumber(v, fn, pos));
+
+const arity = (fn: string, args: Value[], min: number, max: number, pos: number) => {
+  if (args.length < min || args.length > max) {
+    const expected = min === max ? `${min}` : `${min}-${max}`;
+    throw new ExpressionError(`${fn}() takes ${expected} argument${max === 1 ? '' : 's'}, got ${args.length}`, pos);
+  }
+};
+
+const FUNCTIONS: Record<string, BuiltIn> = {
+  round: (args, pos) => {
+    arity('round', args, 1, 2, pos);
+    const factor = 10 ** (args.length > 1 ? toNumber(args[1], 'round', pos) : 0);
+    return Math.round(toNumber(args[0], 'round', pos) * factor) / factor;
+  },
+  floor: (args, pos) => { arity('floor', args, 1, 1, pos); return Math.floor(toNumber(args[0], 'floor', pos)); },
+  ceil: (args, pos) => { arity('ceil', args, 1, 1, pos); return Math.ceil(toNumber(args[0], 'ceil', pos)); },
+  abs: (args, pos) => { arity('abs', args, 1, 1, pos); return Math.abs(toNumber(args[0], 'abs', pos)); },
+  min: (args, pos) => {
+    const nums = numbersOf(args, 'min', pos);
+    if (nums.length === 0) throw new ExpressionError('min() needs at least one number', pos);
+    return Math.min(...nums);
+  },
+  max: (args, pos) => {
+    const nums = numbersOf(args, 'max', pos);
+    if (nums.length === 0) throw new ExpressionError('max() needs at least one number', pos);
+    return Math.max(...nums);
+  },
+  sum: (args, pos) => numbersOf(args, 'sum', pos).reduce((acc, n) => acc + n, 0),
+  // Non-null values, counting list items one by one: count({{expenses}})
+  count: args => args.flatMap(arg => (Array.isArray(arg) ? arg : [arg])).filter(v => v !== null).length,
+  join: (args, pos) => {
+    arity('join', args, 1, 2, pos);
+    if (!Array.isArray(args[0])) throw new ExpressionError(`join() expects a list, got ${typeOfValue(args[0])}`, pos);
+    const separator = args.length > 1 ? toText(args[1], 'join', pos) : ', ';
+    return args[0].map(formatValue).join(separator);
+  },
+  avg: (args, pos) => {
+    const nums = numbersOf(args, 'avg', pos);
+    if (nums.length === 0) throw new ExpressionError('avg() needs at least one number', pos);
+    return nums.reduce((acc, n) => acc + n, 0) / nums.length;
+  },
+  len: (args, pos) => {
+    arity('len', args, 1, 1, pos);
+    const [value] = args;
+    if (typeof value === 'string' || Array.isArray(value)) return value.length;
+    if (value !== null && typeof value === 'object') return Object.keys(value).length;
+    throw new ExpressionError(`len() expects text or a list, got ${typeOfValue(value)}`, pos);
+  },
+  upper: (args, pos) => { arity('upper', args, 1, 1, pos); return toText(args[0], 'upper', pos).toUpperCase(); },
+  lower: (args, pos) => { arity('lower', args, 1, 1, pos); return toText(args[0], 'lower', pos).toLowerCase(); },
+  trim: (args, pos) => { arity('trim', args, 1, 1, pos); return toText(args[0], 'trim', pos).trim(); },
+  number: (args, pos) => { arity('number', args, 1, 1, pos); return toNumber(args[0], 'number', pos); },
+  text: (args, pos) => { arity('text', args, 1, 1, pos); return formatValue(args[0]); },
+  now: (args, pos) => { arity('now', args, 0, 0, pos); return new Date().toISOString(); },
+  // Placeholders so the parser accepts if(), filter() and map(); evaluation is lazy and handled in evaluate()
+  if: (args, pos) => { arity('if', args, 3, 3, pos); return isTruthy(args[0]) ? args[1] : args[2]; },
+  filter: (_args, pos) => { throw new ExpressionError('filter() must be called directly', pos); },
+  map: (_args, pos) => { throw new ExpressionError('map() must be called directly', pos); },
+};
+
+export const FUNCTION_NAMES = Object.keys(FUNCTIONS);
+
+// --- Evaluator ---
+
+export type Resolver = (path: string, pos: number) => Value;
+
+const evaluateNode = (node: AstNode, resolve: Resolver): Value => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'ref':
+      return resolve(node.path, node.pos);
+    case 'unary': {
+      const operand = evaluateNode(node.operand, resolve);
+      if (node.op === '!') return !isTruthy(operand);
+      const num = toNumber(operand, `'${node.op}'`, node.pos);
+      return node.op === '-' ? -num : num;
+    }
+    case 'ternary':
+      return isTruthy(evaluateNode(node.test, resolve))
+        ? evaluateNode(node.then, resolve)
+        : evaluateNode(node.otherwise, resolve);
+    case 'call': {
+      if (node.name === 'if') {
+        arity('if', node.args, 3, 3, node.pos);
+        return isTruthy(evaluateNode(node.args[0], resolve))
+          ? evaluateNode(node.args[1], resolve)
+          : evaluateNode(node.args[2], resolve);
+      }
+      if (node.name === 'filter' || node.name === 'map') return evaluateEach(node.name, node.args, node.pos, resolve);
+      // Own keys only: `constructor` and the like come from Object.prototype
+      if (!Object.hasOwn(FUNCTIONS, node.name)) throw new ExpressionError(`Unknown function '${node.name}'`, node.pos);
+      const args = node.args.map(arg => evaluateNode(arg, resolve));
+      return FUNCTIONS[node.name](args, node.pos);
+    }
+    case 'binary':
+      return evaluateBinary(node.op, node.left, node.right, node.pos, resolve);
+  }
+};
+
+// filter(list, condition) keeps the items the condition holds for; map(list, formula)
+// replaces each item with the formula's result. Both evaluate the second argument
+// once per item, with {{@...}} reading from that item.
+const evaluateEach = (name: 'filter' | 'map', args: AstNode[], pos: number, resolve: Resolver): Value => {
+  arity(name, args, 2, 2, pos);
+  const list = evaluateNode(args[0], resolve);
+  if (!Array.isArray(list)) throw new ExpressionError(`${name}() expects a list, got ${typeOfValue(list)}`, pos);
+
+  const results = list.map(item => {
+    const itemResolve: Resolver = (path, refPos) => (isItemPath(path) ? valueAt(item, parseItemPath(path)) : resolve(path, refPos));
+    return evaluateNode(args[1], itemResolve);
+  });
+  return name === 'map' ? results : list.filter((_item, index) => isTruthy(results[index]));
+};
+
+const evaluateBinary = (op: string, leftNode: AstNode, rightNode: AstNode, pos: number, resolve: Resolver): Value => {
+  // Short-circuit before evaluating the right-hand side
+  if (op === '&&') return isTruthy(evaluateNode(leftNode, resolve)) && isTruthy(evaluateNode(rightNode, resolve));
+  if (op === '||') return isTruthy(evaluateNode(leftNode, resolve)) || isTruthy(evaluateNode(rightNode, resolve));
+
+  const left = evaluateNode(leftNode, resolve);
+  const right = evaluateNode(rightNode, resolve);
+
+  switch (op) {
+    case '==': return valuesEqual(left, right);
+    case '!=': return !valuesEqual(left, right);
+    case '+':
+      if (typeof left === 'string' || typeof right === 'string') return formatValue(left) + formatValue(right);
+      return toNumber(left, "'+'", pos) + toNumber(right, "'+'", pos);
+    case '<':
+    case '<=':
+    case '>':
+    case '>=': {
+      const bothText = typeof left === 'string' && typeof right === 'string';
+      if (!bothText && (typeof left !== 'number' || typeof right !== 'number')) {
+        throw new ExpressionError(`Cannot compare ${typeOfValue(left)} with ${typeOfValue(right)}`, pos);
+      }
+      const l = left as number | string;
+      const r = right as number | string;
+      if (op === '<') return l < r;
+      if (op === '<=') return l <= r;
+      if (op === '>') return l > r;
+      return l >= r;
+    }
+  }
+
+  const l = toNumber(left, `'${op}'`, pos);
+  const r = toNumber(right, `'${op}'`, pos);
+  if ((op === '/' || op === '%') && r === 0) throw new ExpressionError('Division by zero', pos);
+  if (op === '-') return l - r;
+  if (op === '*') return l * r;
+  if (op === '/') return l / r;
+  return l % r;
+};
+
+export interface EvaluationResult {
+  result: Value;
+  error?: string;
+  position?: number;
+  cycle?: string[]; // Dotted paths of the expressions in a reference cycle
+  secret?: boolean; // Read a secret, so the result is masked wherever it is shown
+}
+
+// How a result reads in rows and the trace
+export const displayResult = (evaluated: EvaluationResult): string =>
+  evaluated.secret && !evaluated.error ? SECRET_MASK : formatValue(evaluated.result);
+
+// Supplies the evaluated result of an expression node referenced by a formula
+export type ExpressionLookup = (node: DataNode) => EvaluationResult;
+
+// Without a precomputed lookup, referenced expressions are evaluated on demand,
+// tracking the chain of node ids so a cycle fails instead of recursing forever.
+const recursiveLookup = (root: DataNode[], visiting: string[]): ExpressionLookup => node => {
+  if (visiting.includes(node.id)) return { result: 'ERR', error: 'Circular reference' };
+  return evaluateExpression(String(node.value), root, recursiveLookup(root, [...visiting, node.id]));
+};
+
+// The value a `{{path}}` reference reads, throwing an ExpressionError at `pos` when it can't
+export const resolveReference = (root: DataNode[], path: string, lookup: ExpressionLookup, pos = 0): Value => {
+  if (isItemPath(path)) throw new ExpressionError(`{{${path}}} only works inside filter() or map()`, pos);
+
+  const toValue = (node: DataNode) => nodeToValue(node, target => {
+    const evaluated = lookup(target);
+    if (evaluated.error) throw new ExpressionError(`Referenced expression '${target.name}' failed (${evaluated.error})`, pos);
+    return evaluated.result;
+  });
+
+  if (hasWildcard(parsePath(path))) {
+    const nodes = resolveAll(root, path);
+    if (!nodes) throw new ExpressionError(`Key not found: ${path}`, pos);
+    return nodes.map(toValue);
+  }
+
+  const node = resolvePath(root, path);
+  if (!node) throw new ExpressionError(`Key not found: ${path}`, pos);
+  return toValue(node);
+};
+
+const carriesSecret = (node: DataNode, lookup: ExpressionLookup): boolean => {
+  if (node.type === 'secret') return true;
+  if (node.type === 'expression') return !!lookup(node).secret;
+  if (node.type === 'dictionary' || node.type === 'list') return (node.value as DataNode[]).some(child => carriesSecret(child, lookup));
+  return false;
+};
+
+// Whether a `{{path}}` reference reads a secret, directly, inside a container
+// or through another expression
+export const referencesSecret = (root: DataNode[], path: string, lookup: ExpressionLookup): boolean => {
+  const nodes = hasWildcard(parsePath(path)) ? resolveAll(root, path) ?? [] : [resolvePath(root, path)];
+  return nodes.some(node => !!node && carriesSecret(node, lookup));
+};
+
+// Evaluate expression string: "{{items[0].price}} * {{tax}}"
+export const evaluateExpression = (expression: string, root: DataNode[], lookup?: ExpressionLookup): EvaluationResult => {
+  if (!expression || !expression.trim()) return { result: '' };
+
+  const lookupExpression = lookup ?? recursiveLookup(root, []);
+  let secret = false;
+  const resolve: Resolver = (path, pos) => {
+    const value = resolveReference(root, path, lookupExpression, pos);
+    secret ||= referencesSecret(root, path, lookupExpression);
+    return value;
+  };
+
+  try {
+    const result = evaluateNode(parseExpression(expression), resolve);
+    return secret ? { result, secret } : { result };
+  } catch (err) {
+    if (err instanceof ExpressionError) return { result: 'ERR', error: err.message, position: err.position };
+    return { result: 'ERR', error: err instanceof Error ? err.message : String(err) };
+  }
+};
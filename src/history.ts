@@ -0,0 +1,72 @@
+import type { DataNode } from './types';
+import type { JarStore } from './jars';
+
+// --- Undo / Redo History ---
+//
+// Each entry holds the whole tree as it was on the other side of a change:
+// `past` entries are the state before a change, `future` entries the state
+// an undo stepped back from. Nodes are immutable, so in memory unchanged
+// subtrees are shared between entries.
+
+export interface HistoryEntry {
+  label: string;
+  data: DataNode[];
+  at: number;
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const HISTORY_LIMIT = 50;
+
+export const emptyHistory: HistoryState = { past: [], future: [] };
+
+// Record a change; any redo branch is discarded
+export const recordChange = (history: HistoryState, label: string, before: DataNode[]): HistoryState => ({
+  past: [...history.past, { label, data: before, at: Date.now() }].slice(-HISTORY_LIMIT),
+  future: [],
+});
+
+// Step back: returns the tree to restore and the updated history, or null if there is nothing to undo
+export const undo = (history: HistoryState, current: DataNode[]): { history: HistoryState, data: DataNode[], label: string } | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    data: entry.data,
+    label: entry.label,
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, { label: entry.label, data: current, at: Date.now() }],
+    },
+  };
+};
+
+export const redo = (history: HistoryState, current: DataNode[]): { history: HistoryState, data: DataNode[], label: string } | null => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    data: entry.data,
+    label: entry.label,
+    history: {
+      past: [...history.past, { label: entry.label, data: current, at: Date.now() }],
+      future: history.future.slice(0, -1),
+    },
+  };
+};
+
+export const loadHistory = async (store: JarStore, jarId: string): Promise<HistoryState> => {
+  const saved = await store.loadRecord(jarId, 'history') as Partial<HistoryState> | undefined;
+  return Array.isArray(saved?.past) && Array.isArray(saved?.future) ? saved as HistoryState : emptyHistory;
+};
+
+// History is a convenience: when storage is full, keep dropping the oldest half rather than fail
+const shrinkHistory = (history: HistoryState): HistoryState | null =>
+  history.past.length + history.future.length === 0 ? null : {
+    past: history.past.slice(Math.ceil(history.past.length / 2)),
+    future: history.future.slice(Math.ceil(history.future.length / 2)),
+  };
+
+export const saveHistory = (store: JarStore, jarId: string, history: HistoryState) =>
+  store.saveRecord(jarId, 'history', history, shrinkHistory);
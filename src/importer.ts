@@ -0,0 +1,118 @@
+import type { DataNode } from './types';
+import { generateId, mergeNodes, renumberList } from './tree';
+import { inferStringType } from './dataTypes';
+import { appendPath, nameStep } from './paths';
+
+// --- Import ---
+
+export interface ImportWarning {
+  path: string;
+  message: string;
+}
+
+export interface ImportResult {
+  nodes: DataNode[];
+  warnings: ImportWarning[];
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+// A JSON number too large for a double, kept as its original digits
+export class LargeNumber {
+  source: string;
+
+  constructor(source: string) {
+    this.source = source;
+  }
+}
+
+// JSON.parse that keeps the exact text of numbers a double can't represent.
+// Uses the reviver's source context where the browser provides it.
+export const parseJson = (text: string): unknown =>
+  JSON.parse(text, (_key: string, value: unknown, context?: { source?: string }) => {
+    if (typeof value !== 'number' || !context?.source) return value;
+    const unsafe = !Number.isFinite(value) || (Number.isInteger(value) && !Number.isSafeInteger(value));
+    return unsafe ? new LargeNumber(context.source) : value;
+  });
+
+const describe = (value: unknown) => (Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value);
+
+// Convert any JSON value into a node, recording a warning for everything that had to be coerced
+const valueToNode = (name: string, value: unknown, path: string, warnings: ImportWarning[]): DataNode => {
+  const node = (type: DataNode['type'], nodeValue: unknown): DataNode => ({ id: generateId(), name, type, value: nodeValue });
+
+  if (value instanceof LargeNumber) {
+    warnings.push({ path, message: `Number ${value.source} is too large to store exactly; imported as text` });
+    return node('text', value.source);
+  }
+
+  switch (typeof value) {
+    case 'string':
+      return node(inferStringType(value), value);
+    case 'boolean':
+      return node('boolean', value);
+    case 'number':
+      if (Number.isInteger(value) && !Number.isSafeInteger(value)) {
+        warnings.push({ path, message: `Number ${value} is beyond safe integer precision and may have been rounded` });
+      }
+      return node('number', value);
+    case 'object':
+      if (value === null) return node('null', null);
+      if (Array.isArray(value)) {
+        return node('list', value.map((item, index) => valueToNode(`${index}`, item, appendPath(path, { kind: 'index', index }), warnings)));
+      }
+      return node('dictionary', objectToNodes(value as Record<string, unknown>, path, warnings));
+    default:
+      warnings.push({ path, message: `Unsupported ${describe(value)} value imported as text` });
+      return node('text', String(value));
+  }
+};
+
+const objectToNodes = (obj: Record<string, unknown>, prefix: string, warnings: ImportWarning[]): DataNode[] =>
+  Object.keys(obj).map(key => valueToNode(key, obj[key], appendPath(prefix, nameStep(key)), warnings));
+
+// Convert a plain JSON object into jar nodes
+export const parseImport = (obj: unknown): ImportResult => {
+  if (typeof obj !== 'object' || obj === null || Array.isArray(obj) || obj instanceof LargeNumber) {
+    throw new ImportError(`Expected a JSON object at the top level, got ${describe(obj)}`);
+  }
+  const warnings: ImportWarning[] = [];
+  return { nodes: objectToNodes(obj as Record<string, unknown>, '', warnings), warnings };
+};
+
+// --- Import Modes ---
+
+export type ImportMode = 'replace' | 'merge-root' | 'deep-merge' | 'into-current';
+
+export const IMPORT_MODES: { mode: ImportMode, label: string, description: string }[] = [
+  { mode: 'replace', label: 'Replace everything', description: 'The jar becomes exactly the imported data' },
+  { mode: 'merge-root', label: 'Merge at root', description: 'Imported top-level keys replace or add to existing ones' },
+  { mode: 'deep-merge', label: 'Deep merge', description: 'Dictionaries are merged key by key at every level' },
+  { mode: 'into-current', label: 'Into open container', description: 'Deep-merge into the dictionary (or append to the list) you have open' },
+];
+
+// The contents a container should have after importing `incoming` into `current`
+export const combineImport = (mode: ImportMode, current: DataNode[], incoming: DataNode[], intoList = false): DataNode[] => {
+  switch (mode) {
+    case 'replace':
+      return incoming;
+    case 'merge-root': {
+      const result = [...current];
+      incoming.forEach(node => {
+        const index = result.findIndex(existing => existing.name === node.name);
+        if (index < 0) result.push(node);
+        else result[index] = { ...node, id: result[index].id, rules: node.rules ?? result[index].rules };
+      });
+      return result;
+    }
+    case 'deep-merge':
+      return mergeNodes(current, incoming);
+    case 'into-current':
+      return intoList ? renumberList([...current, ...incoming]) : mergeNodes(current, incoming);
+  }
+};
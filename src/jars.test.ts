@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DataNode } from './types';
+import { createJarStore } from './jars';
+import { createMemoryAdapter, type StorageAdapter, type StorageChanges } from './storage';
+import { memoryStorage } from './testing';
+
+const text = (id: string, value: string): DataNode => ({ id, name: id, type: 'text', value });
+
+// A memory adapter that records each write and can refuse ones over `limit` characters
+const recordingAdapter = (limit = Infinity) => {
+  const inner = createMemoryAdapter();
+  const writes: StorageChanges[] = [];
+  const adapter: StorageAdapter = {
+    ...inner,
+    write: async changes => {
+      if (JSON.stringify(changes).length > limit) throw new DOMException('Storage is full', 'QuotaExceededError');
+      writes.push(changes);
+      return inner.write(changes);
+    },
+  };
+  return { adapter, writes };
+};
+
+describe('createJarStore', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+  });
+
+  it('round-trips a tree, rewriting only the top-level nodes that changed', async () => {
+    const { adapter, writes } = recordingAdapter();
+    const store = createJarStore(adapter);
+    const first = [text('a', '1'), text('b', '1')];
+    store.save('j', first);
+    await store.flush();
+    store.save('j', [first[0], text('b', '2')]);
+    await store.flush();
+
+    expect(Object.keys(writes[1].set ?? {})).toEqual(['jar:j:node:b']);
+    expect(await createJarStore(adapter).load('j')).toEqual([text('a', '1'), text('b', '2')]);
+  });
+
+  it('coalesces saves made within the debounce into one write', async () => {
+    vi.useFakeTimers();
+    try {
+      const { adapter, writes } = recordingAdapter();
+      const store = createJarStore(adapter);
+      store.saveRecord('j', 'history', { past: [1] });
+      store.saveRecord('j', 'history', { past: [1, 2] });
+      store.save('j', [text('a', '1')]);
+      expect(writes).toHaveLength(0);
+      expect(await store.loadRecord('j', 'history')).toEqual({ past: [1, 2] });
+
+      await vi.runAllTimersAsync();
+      expect(writes).toHaveLength(2);
+      expect(await createJarStore(adapter).loadRecord('j', 'history')).toEqual({ past: [1, 2] });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('shrinks a record until it fits when storage is full', async () => {
+    const { adapter } = recordingAdapter(200);
+    const onError = vi.fn();
+    const store = createJarStore(adapter, onError);
+    const log = Array.from({ length: 20 }, (_, i) => `entry ${i}`);
+    store.saveRecord('j', 'changes', log, entries => (entries.length ? entries.slice(Math.ceil(entries.length / 2)) : null));
+    await store.flush();
+
+    const saved = await createJarStore(adapter).loadRecord('j', 'changes') as string[];
+    expect(saved.length).toBeLessThan(log.length);
+    expect(saved).toEqual(log.slice(log.length - saved.length));
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('reports a write that cannot shrink', async () => {
+    const { adapter } = recordingAdapter(10);
+    const onError = vi.fn();
+    const store = createJarStore(adapter, onError);
+    store.saveRecord('j', 'snapshots', ['too big to fit']);
+    await store.flush();
+    expect(onError).toHaveBeenCalledOnce();
+  });
+
+  it('removes everything a jar keeps', async () => {
+    const adapter = createMemoryAdapter();
+    const store = createJarStore(adapter);
+    store.save('j', [text('a', '1')]);
+    store.saveRecord('j', 'history', { past: [] });
+    await store.flush();
+    await store.remove('j');
+    expect(await adapter.keys('jar:j:')).toEqual([]);
+  });
+});
@@ -0,0 +1,272 @@
+import type { DataNode } from './types';
+import { generateId } from './tree';
+import { isQuotaError, type StorageAdapter } from './storage';
+import { secureStorage } from './encryption';
+
+// --- Jars ---
+//
+// Each jar is an independent tree with its own undo history, snapshots and change log,
+// stored under keys suffixed with the jar id. A small index records the
+// jars and which one is open. Trees and the records kept beside them are
+// persisted through a StorageAdapter.
+
+export interface JarInfo {
+  id: string;
+  name: string;
+}
+
+export interface JarIndex {
+  activeId: string;
+  jars: JarInfo[];
+}
+
+const JAR_INDEX_KEY = 'data-jar-jars';
+const DATA_KEY = 'data-jar-storage';
+const HISTORY_KEY = 'data-jar-history';
+const SNAPSHOTS_KEY = 'data-jar-snapshots';
+const SYNC_KEY = 'data-jar-sync';
+const CHANGES_KEY = 'data-jar-changes';
+
+const jarDataKey = (jarId: string) => `${DATA_KEY}:${jarId}`;
+const jarHistoryKey = (jarId: string) => `${HISTORY_KEY}:${jarId}`;
+const jarSnapshotsKey = (jarId: string) => `${SNAPSHOTS_KEY}:${jarId}`;
+export const jarSyncKey = (jarId: string) => `${SYNC_KEY}:${jarId}`;
+const jarChangesKey = (jarId: string) => `${CHANGES_KEY}:${jarId}`;
+
+// Before jars existed everything lived under the bare keys; move it into a first jar
+const migrateSingleJar = (): JarIndex => {
+  const jar: JarInfo = { id: generateId(), name: 'Main' };
+  [
+    [DATA_KEY, jarDataKey(jar.id)],
+    [HISTORY_KEY, jarHistoryKey(jar.id)],
+    [SNAPSHOTS_KEY, jarSnapshotsKey(jar.id)],
+  ].forEach(([from, to]) => {
+    const saved = localStorage.getItem(from);
+    if (saved !== null) {
+      localStorage.setItem(to, saved);
+      localStorage.removeItem(from);
+    }
+  });
+  return { activeId: jar.id, jars: [jar] };
+};
+
+export const loadJarIndex = (): JarIndex => {
+  const saved = localStorage.getItem(JAR_INDEX_KEY);
+  if (saved) {
+    try {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed.jars) && parsed.jars.length > 0) return parsed;
+    } catch (e) {
+      console.error("Failed to load jar index", e);
+    }
+  }
+  const index = migrateSingleJar();
+  saveJarIndex(index);
+  return index;
+};
+
+export const saveJarIndex = (index: JarIndex) => {
+  localStorage.setItem(JAR_INDEX_KEY, JSON.stringify(index));
+};
+
+// The jar's tree as last written by the pre-adapter versions, which kept it in localStorage
+const loadLegacyJarData = (jarId: string): DataNode[] | null => {
+  const saved = secureStorage.getItem(jarDataKey(jarId));
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to load local storage", e);
+    return null;
+  }
+};
+
+export const SAVE_DELAY_MS = 500;
+
+// What a jar keeps beside its tree, each as one record
+export type JarRecord = 'history' | 'snapshots' | 'changes' | 'sync';
+const JAR_RECORDS: JarRecord[] = ['history', 'snapshots', 'changes', 'sync'];
+
+// Where each record lived in localStorage before it moved to the adapter. The
+// sync record shared its key with the sync queue, so remoteSync.ts moves it.
+const LEGACY_RECORD_KEYS: Partial<Record<JarRecord, (jarId: string) => string>> = {
+  history: jarHistoryKey,
+  snapshots: jarSnapshotsKey,
+  changes: jarChangesKey,
+};
+
+export interface JarStore {
+  load(jarId: string): Promise<DataNode[] | null>;
+  // Debounced: rapid edits are coalesced into one write
+  save(jarId: string, data: DataNode[]): void;
+  // A record kept beside the tree, or undefined if there is none yet
+  loadRecord(jarId: string, record: JarRecord): Promise<unknown>;
+  // Debounced like `save`. When storage is full, `shrink` can offer a smaller
+  // value to try instead (null to give up and report the error).
+  saveRecord<T>(jarId: string, record: JarRecord, value: T, shrink?: (value: T) => T | null): void;
+  // Write anything pending now
+  flush(): Promise<void>;
+  // Delete the jar's tree, history, snapshots, sync state and change log
+  remove(jarId: string): Promise<void>;
+  // Drop the in-memory copies of what was last written (e.g. when locking)
+  forget(): void;
+}
+
+// Each top-level node is its own record, plus one record for their order. Nodes are
+// immutable, so only top-level entries whose identity changed need rewriting. The
+// adapter may still be opening; every operation waits for it.
+export const createJarStore = (adapter: StorageAdapter | Promise<StorageAdapter>, onError: (err: unknown) => void = () => {}): JarStore => {
+  const ready = Promise.resolve(adapter);
+  const orderKey = (jarId: string) => `jar:${jarId}:order`;
+  const nodeKey = (jarId: string, nodeId: string) => `jar:${jarId}:node:${nodeId}`;
+  const recordKey = (jarId: string, record: JarRecord) => `jar:${jarId}:${record}`;
+
+  const written = new Map<string, DataNode[]>();
+  const pending = new Map<string, DataNode[]>();
+  const pendingRecords = new Map<string, { value: unknown, shrink?: (value: unknown) => unknown | null }>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const write = async (jarId: string, data: DataNode[]) => {
+    const previous = written.get(jarId);
+    const previousById = new Map(previous?.map(node => [node.id, node]));
+    const ids = data.map(node => node.id);
+
+    const set: Record<string, unknown> = {};
+    data.forEach(node => {
+      if (previousById.get(node.id) !== node) set[nodeKey(jarId, node.id)] = node;
+    });
+    if (!previous || previous.length !== ids.length || previous.some((node, i) => node.id !== ids[i])) {
+      set[orderKey(jarId)] = ids;
+    }
+    const kept = new Set(ids);
+    const remove = (previous ?? []).filter(node => !kept.has(node.id)).map(node => nodeKey(jarId, node.id));
+
+    if (Object.keys(set).length > 0 || remove.length > 0) await (await ready).write({ set, remove });
+    written.set(jarId, data);
+  };
+
+  const writeRecord = async (key: string, value: unknown, shrink?: (value: unknown) => unknown | null) => {
+    let toWrite = value;
+    while (true) {
+      try {
+        await (await ready).write({ set: { [key]: toWrite } });
+        return;
+      } catch (err) {
+        const smaller = isQuotaError(err) && shrink ? shrink(toWrite) : null;
+        if (smaller === null) throw err;
+        toWrite = smaller;
+      }
+    }
+  };
+
+  // Flushes run one after another so writes for a jar land in order
+  let flushing = Promise.resolve();
+  const flush = () => {
+    clearTimeout(timer);
+    flushing = flushing.then(async () => {
+      const batch = [...pending];
+      const records = [...pendingRecords];
+      pending.clear();
+      pendingRecords.clear();
+      for (const [jarId, data] of batch) {
+        try {
+          await write(jarId, data);
+        } catch (err) {
+          onError(err);
+        }
+      }
+      for (const [key, { value, shrink }] of records) {
+        try {
+          await writeRecord(key, value, shrink);
+        } catch (err) {
+          onError(err);
+        }
+      }
+    });
+    return flushing;
+  };
+
+  const load = async (jarId: string): Promise<DataNode[] | null> => {
+    const storage = await ready;
+    const [order] = await storage.read([orderKey(jarId)]);
+    if (Array.isArray(order)) {
+      const nodes = await storage.read(order.map(id => nodeKey(jarId, String(id))));
+      const data = nodes.filter((node): node is DataNode => node !== undefined);
+      written.set(jarId, data);
+      return data;
+    }
+
+    // One-time move out of the legacy localStorage key
+    const legacy = loadLegacyJarData(jarId);
+    if (!legacy) return null;
+    await write(jarId, legacy);
+    secureStorage.removeItem(jarDataKey(jarId));
+    return legacy;
+  };
+
+  const loadRecord = async (jarId: string, record: JarRecord): Promise<unknown> => {
+    const key = recordKey(jarId, record);
+    const waiting = pendingRecords.get(key);
+    if (waiting) return waiting.value;
+    const [value] = await (await ready).read([key]);
+    if (value !== undefined) return value;
+
+    // One-time move out of localStorage
+    const legacyKey = LEGACY_RECORD_KEYS[record]?.(jarId);
+    const saved = legacyKey ? secureStorage.getItem(legacyKey) : null;
+    if (!legacyKey || saved === null) return undefined;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(saved);
+    } catch (e) {
+      console.error(`Failed to read the saved ${record}`, e);
+      return undefined;
+    }
+    await writeRecord(key, parsed);
+    secureStorage.removeItem(legacyKey);
+    return parsed;
+  };
+
+  const schedule = () => {
+    clearTimeout(timer);
+    timer = setTimeout(flush, SAVE_DELAY_MS);
+  };
+
+  return {
+    load,
+    save: (jarId, data) => {
+      if (written.get(jarId) === data) return;
+      pending.set(jarId, data);
+      schedule();
+    },
+    loadRecord,
+    saveRecord: (jarId, record, value, shrink) => {
+      pendingRecords.set(recordKey(jarId, record), { value, shrink: shrink as ((value: unknown) => unknown | null) | undefined });
+      schedule();
+    },
+    flush,
+    forget: () => written.clear(),
+    remove: async jarId => {
+      pending.delete(jarId);
+      written.delete(jarId);
+      JAR_RECORDS.forEach(record => pendingRecords.delete(recordKey(jarId, record)));
+      const storage = await ready;
+      await storage.write({ remove: await storage.keys(`jar:${jarId}:`) });
+      // The sync queue lives in localStorage, as may records not yet moved out of it
+      [jarDataKey(jarId), jarHistoryKey(jarId), jarSnapshotsKey(jarId), jarSyncKey(jarId), jarChangesKey(jarId)].forEach(key => secureStorage.removeItem(key));
+    },
+  };
+};
+
+// Find a jar by id or (case-insensitive) name, as given in a URL's jar= parameter
+export const findJar = (index: JarIndex, ref: string): JarInfo | undefined =>
+  index.jars.find(jar => jar.id === ref) ?? index.jars.find(jar => jar.name.toLowerCase() === ref.toLowerCase());
+
+// A name not already taken, e.g. "Work copy 2"
+export const uniqueJarName = (index: JarIndex, name: string): string => {
+  const taken = new Set(index.jars.map(jar => jar.name.toLowerCase()));
+  if (!taken.has(name.toLowerCase())) return name;
+  let n = 2;
+  while (taken.has(`${name} ${n}`.toLowerCase())) n++;
+  return `${name} ${n}`;
+};
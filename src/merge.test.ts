@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { DataNode } from './types';
+import { mergeTrees } from './merge';
+
+const text = (id: string, name: string, value: string): DataNode => ({ id, name, type: 'text', value });
+const dict = (id: string, name: string, value: DataNode[]): DataNode => ({ id, name, type: 'dictionary', value });
+const list = (id: string, name: string, value: DataNode[]): DataNode => ({ id, name, type: 'list', value });
+
+const values = (nodes: DataNode[]) => nodes.map(node => `${node.name}=${node.value}`);
+
+describe('mergeTrees', () => {
+  const base = [text('a', 'a', '1'), text('b', 'b', '1')];
+
+  it('takes changes made on one side only', () => {
+    const local = [text('a', 'a', '2'), base[1]];
+    const remote = [base[0], text('b', 'b', '3')];
+    const { nodes, conflicts } = mergeTrees(base, local, remote, 'local');
+    expect(values(nodes)).toEqual(['a=2', 'b=3']);
+    expect(conflicts).toEqual([]);
+  });
+
+  it('settles a node changed on both sides by preference and reports it', () => {
+    const local = [text('a', 'a', 'local'), base[1]];
+    const remote = [text('a', 'a', 'remote'), base[1]];
+    expect(values(mergeTrees(base, local, remote, 'local').nodes)).toEqual(['a=local', 'b=1']);
+    const { nodes, conflicts } = mergeTrees(base, local, remote, 'remote');
+    expect(values(nodes)).toEqual(['a=remote', 'b=1']);
+    expect(conflicts).toEqual(['a']);
+  });
+
+  it('merges a container edited on both sides child by child', () => {
+    const settings = dict('s', 'settings', [text('x', 'x', '1'), text('y', 'y', '1')]);
+    const local = [dict('s', 'settings', [text('x', 'x', '2'), text('y', 'y', '1')])];
+    const remote = [dict('s', 'settings', [text('x', 'x', '1'), text('y', 'y', '2')])];
+    const { nodes, conflicts } = mergeTrees([settings], local, remote, 'local');
+    expect(values(nodes[0].value as DataNode[])).toEqual(['x=2', 'y=2']);
+    expect(conflicts).toEqual([]);
+  });
+
+  it('keeps additions from both sides, renumbering list items', () => {
+    const items = list('l', 'items', [text('i0', '0', 'a')]);
+    const local = [list('l', 'items', [text('i0', '0', 'a'), text('i1', '1', 'local')])];
+    const remote = [list('l', 'items', [text('i0', '0', 'a'), text('i2', '1', 'remote')])];
+    const merged = mergeTrees([items], local, remote, 'local').nodes[0].value as DataNode[];
+    expect(values(merged)).toEqual(['0=a', '1=remote', '2=local']);
+  });
+
+  it('drops a node deleted on one side and untouched on the other', () => {
+    const { nodes, conflicts } = mergeTrees(base, [base[1]], base, 'remote');
+    expect(values(nodes)).toEqual(['b=1']);
+    expect(conflicts).toEqual([]);
+  });
+
+  it('keeps an edit over a delete and reports it', () => {
+    const { nodes, conflicts } = mergeTrees(base, [base[1]], [text('a', 'a', '2'), base[1]], 'local');
+    expect(values(nodes)).toEqual(['a=2', 'b=1']);
+    expect(conflicts).toEqual(['a']);
+  });
+
+  it('does not leave two keys with the same name', () => {
+    const local = [...base, text('l', 'c', 'local')];
+    const remote = [...base, text('r', 'c', 'remote')];
+    const { nodes, conflicts } = mergeTrees(base, local, remote, 'remote');
+    expect(values(nodes)).toEqual(['a=1', 'b=1', 'c=remote']);
+    expect(conflicts).toEqual(['c']);
+
+    const same = mergeTrees(base, local, [...base, text('r', 'c', 'local')], 'remote');
+    expect(values(same.nodes)).toEqual(['a=1', 'b=1', 'c=local']);
+    expect(same.conflicts).toEqual([]);
+  });
+
+  it('asks the caller whether the remote side changed a node', () => {
+    const local = [text('a', 'a', '2'), base[1]];
+    const remote = [text('a', 'a', '3'), base[1]];
+    // Told the remote copy is as old as the base, the local edit stands without a conflict
+    const { nodes, conflicts } = mergeTrees(base, local, remote, 'remote', () => false);
+    expect(values(nodes)).toEqual(['a=2', 'b=1']);
+    expect(conflicts).toEqual([]);
+  });
+});
@@ -0,0 +1,132 @@
+import type { DataNode } from './types';
+import { renumberList } from './tree';
+import { nodesEqual } from './diff';
+import { rulesEqual } from './schema';
+import { formatPath, nameStep } from './paths';
+
+// --- Three-Way Merge ---
+//
+// Combines two edited copies of a tree (`local` and `remote`) that both started
+// from `base`, matching nodes by id. A change on one side only is taken as is;
+// containers changed on both sides are merged child by child. Anything else
+// changed on both sides is a conflict, settled by `prefer` and reported.
+// An edit always beats a delete so no data is dropped silently. Two keys that
+// end up with the same name are a conflict too. Whether the remote side
+// changed a node is read off `base` unless the caller knows better (the sync
+// server records the revision each node last changed in).
+
+export interface MergeResult {
+  nodes: DataNode[];
+  conflicts: string[]; // Paths where both sides changed the same node
+}
+
+export type MergePreference = 'local' | 'remote';
+
+// Whether `remote` differs from the `base` node with the same id
+export type RemoteChanged = (base: DataNode, remote: DataNode) => boolean;
+
+const isContainer = (node: DataNode) => node.type === 'dictionary' || node.type === 'list';
+
+const same = (a: DataNode, b: DataNode) => a === b || nodesEqual(a, b);
+
+const mergeLevel = (
+  base: DataNode[],
+  local: DataNode[],
+  remote: DataNode[],
+  prefer: MergePreference,
+  remoteChanged: RemoteChanged,
+  path: string[],
+  conflicts: string[],
+  isList: boolean
+): DataNode[] => {
+  const baseById = new Map(base.map(node => [node.id, node]));
+  const localById = new Map(local.map(node => [node.id, node]));
+  const remoteById = new Map(remote.map(node => [node.id, node]));
+
+  const conflict = (name: string) => conflicts.push(formatPath([...path, name].map(nameStep)));
+
+  const pick = (id: string): DataNode | null => {
+    const b = baseById.get(id);
+    const l = localById.get(id);
+    const r = remoteById.get(id);
+
+    if (!l && !r) return null;
+    if (!l || !r) {
+      const kept = (l ?? r) as DataNode;
+      if (!b) return kept; // Added on one side
+      if (l ? same(b, l) : !remoteChanged(b, kept)) return null; // Deleted on the other side, untouched here
+      conflict(kept.name);
+      return kept;
+    }
+    if (same(l, r)) return l;
+    if (b && !remoteChanged(b, r)) return l;
+    if (b && same(b, l)) return r;
+
+    // Changed on both sides: descend into containers that kept their type
+    if (b && isContainer(l) && l.type === r.type && b.type === l.type) {
+      let name = l.name;
+      if (l.name === b.name) name = r.name;
+      else if (r.name !== b.name && r.name !== l.name) {
+        conflict(l.name);
+        name = prefer === 'local' ? l.name : r.name;
+      }
+      const value = mergeLevel(b.value as DataNode[], l.value as DataNode[], r.value as DataNode[], prefer, remoteChanged, [...path, name], conflicts, l.type === 'list');
+      const rules = rulesEqual(l.rules, b.rules) ? r.rules : l.rules;
+      return { ...l, name, value, rules };
+    }
+    conflict(l.name);
+    return prefer === 'local' ? l : r;
+  };
+
+  // Local order, with nodes only the remote has placed after their remote predecessor
+  const order = local.map(node => node.id);
+  remote.forEach((node, index) => {
+    if (localById.has(node.id)) return;
+    const previous = index > 0 ? order.indexOf(remote[index - 1].id) : -1;
+    order.splice(previous + 1, 0, node.id);
+  });
+
+  const merged = order.map(pick).filter((node): node is DataNode => node !== null);
+  return isList ? renumberList(merged) : settleNameCollisions(merged, localById, remoteById, prefer, path, conflicts);
+};
+
+// Keys are found by name, so two sides that each added (or renamed something
+// to) the same name can't both keep it. Identical copies collapse quietly;
+// otherwise the preferred side's node wins and the path is reported.
+const settleNameCollisions = (
+  merged: DataNode[],
+  localById: Map<string, DataNode>,
+  remoteById: Map<string, DataNode>,
+  prefer: MergePreference,
+  path: string[],
+  conflicts: string[]
+): DataNode[] => {
+  const preferred = prefer === 'local' ? localById : remoteById;
+  const winners = new Map<string, DataNode>();
+  merged.forEach(node => {
+    const rival = winners.get(node.name);
+    if (!rival) {
+      winners.set(node.name, node);
+      return;
+    }
+    if (!same(rival, node)) conflicts.push(formatPath([...path, node.name].map(nameStep)));
+    // The preferred side's node is the one it has under this name
+    if (preferred.get(node.id)?.name === node.name && preferred.get(rival.id)?.name !== rival.name) winners.set(node.name, node);
+  });
+  return merged.filter(node => winners.get(node.name) === node);
+};
+
+export const mergeTrees = (
+  base: DataNode[],
+  local: DataNode[],
+  remote: DataNode[],
+  prefer: MergePreference,
+  remoteChanged: RemoteChanged = (b, r) => !same(b, r)
+): MergeResult => {
+  const conflicts: string[] = [];
+  const nodes = mergeLevel(base, local, remote, prefer, remoteChanged, [], conflicts, false);
+  return { nodes, conflicts };
+};
+
+export const treesEqual = (a: DataNode[], b: DataNode[]) =>
+  a === b || (a.length === b.length && a.every((node, i) => nodesEqual(node, b[i])));
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { DataNode } from './types';
+import { findStep, formatPath, parsePath, PathError, pathOfId } from './paths';
+
+const text = (id: string, name: string): DataNode => ({ id, name, type: 'text', value: '' });
+
+describe('parsePath', () => {
+  it('reads dotted names, list positions and wildcards', () => {
+    expect(parsePath('users[0].email')).toEqual([
+      { kind: 'name', name: 'users' },
+      { kind: 'index', index: 0 },
+      { kind: 'name', name: 'email' },
+    ]);
+    expect(parsePath('items[-1]')).toEqual([{ kind: 'name', name: 'items' }, { kind: 'index', index: -1 }]);
+    expect(parsePath('expenses.*.amount')[1]).toEqual({ kind: 'wildcard' });
+    expect(parsePath('expenses[*]')[1]).toEqual({ kind: 'wildcard' });
+  });
+
+  it('keeps quoted and escaped names as keys', () => {
+    expect(parsePath('users["first.name"]')[1]).toEqual({ kind: 'name', name: 'first.name' });
+    expect(parsePath("a['it\\'s']")[1]).toEqual({ kind: 'name', name: "it's" });
+    expect(parsePath('users.first\\.name')[1]).toEqual({ kind: 'name', name: 'first.name' });
+    expect(parsePath('["0"]')).toEqual([{ kind: 'name', name: '0' }]);
+    expect(parsePath('\\*')).toEqual([{ kind: 'name', name: '*' }]);
+  });
+
+  it('reports where a malformed path goes wrong', () => {
+    const positionOf = (path: string) => {
+      try {
+        parsePath(path);
+      } catch (err) {
+        expect(err).toBeInstanceOf(PathError);
+        return (err as PathError).position;
+      }
+      return null;
+    };
+    expect(positionOf('')).toBe(0);
+    expect(positionOf('a..b')).toBe(2);
+    expect(positionOf('a[x]')).toBe(2);
+    expect(positionOf('a[0')).toBe(3);
+    expect(positionOf('a["b]')).toBe(2);
+  });
+
+  it('formats back to the canonical text', () => {
+    ['users[0].email', 'items[-1]', 'a["first.name"]', 'expenses.*.amount'].forEach(path => {
+      expect(formatPath(parsePath(path))).toBe(path);
+    });
+    expect(formatPath(parsePath('users.first\\.name'))).toBe('users["first.name"]');
+  });
+});
+
+describe('findStep', () => {
+  const children = [text('a', '0'), text('b', '1'), text('c', '2')];
+
+  it('reads positions in a list, counting negative ones from the end', () => {
+    expect(findStep(children, true, { kind: 'index', index: 1 })).toBe(1);
+    expect(findStep(children, true, { kind: 'index', index: -1 })).toBe(2);
+    expect(findStep(children, true, { kind: 'index', index: -3 })).toBe(0);
+    expect(findStep(children, true, { kind: 'index', index: -4 })).toBe(-1);
+    expect(findStep(children, true, { kind: 'index', index: 3 })).toBe(-1);
+  });
+
+  it('reads an all-digit name in a list as a position', () => {
+    expect(findStep(children, true, { kind: 'name', name: '2' })).toBe(2);
+    expect(findStep(children, true, { kind: 'name', name: 'b' })).toBe(-1);
+  });
+
+  it('matches dictionary keys by name only', () => {
+    const keys = [text('x', 'name'), text('y', '0')];
+    expect(findStep(keys, false, { kind: 'name', name: '0' })).toBe(1);
+    expect(findStep(keys, false, { kind: 'index', index: 0 })).toBe(-1);
+    expect(findStep(keys, false, { kind: 'wildcard' })).toBe(-1);
+  });
+});
+
+describe('pathOfId', () => {
+  it('builds the canonical path to a node', () => {
+    const tree: DataNode[] = [
+      { id: 'l', name: 'items', type: 'list', value: [{ id: 'd', name: '0', type: 'dictionary', value: [text('e', 'e.mail')] }] },
+    ];
+    expect(pathOfId(tree, 'e')).toBe('items[0]["e.mail"]');
+    expect(pathOfId(tree, 'missing')).toBeNull();
+  });
+});
@@ -0,0 +1,205 @@
+import type { DataNode } from './types';
+
+// --- Paths ---
+//
+// Every place that names a node by text (formulas, the URL API, search
+// results, validation messages) uses this grammar:
+//
+//   path    := first step*
+//   first   := name | bracket
+//   step    := '.' name | bracket
+//   name    := '*' | ( any char but . [ ] \  |  '\' any char )+
+//   bracket := '[' ( '-'? digits | '*' | quoted ) ']'
+//   quoted  := '"' ( any char but " \  |  '\' any char )* '"'   (or single quotes)
+//
+// So `users[0]["first.name"]`, `users.0.first\.name` and `users[-1].email` all
+// work. Lookup depends on the container, never on guessing:
+//   - a name matches a dictionary key exactly; in a list, an all-digit name is
+//     read as a position (so `items.0` keeps working)
+//   - a bracketed number is a list position, counted from the end when negative
+//   - a quoted name is always a key, so `["0"]` is the dictionary key "0"
+//   - `*` stands for every child of a list or dictionary, so `expenses.*.amount`
+//     reads many nodes at once (a key named "*" is `["*"]` or `\*`)
+
+export type PathStep =
+  | { kind: 'name'; name: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' };
+
+export class PathError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'PathError';
+    this.position = position;
+  }
+}
+
+const SPECIAL = '.[]\\';
+
+const readQuoted = (path: string, start: number): { name: string, end: number } => {
+  const quote = path[start];
+  let name = '';
+  let i = start + 1;
+  while (i < path.length && path[i] !== quote) {
+    if (path[i] === '\\') i++;
+    if (i >= path.length) break;
+    name += path[i++];
+  }
+  if (i >= path.length) throw new PathError('Unterminated quoted key', start);
+  return { name, end: i + 1 };
+};
+
+const readBracket = (path: string, start: number): { step: PathStep, end: number } => {
+  let i = start + 1;
+  let step: PathStep;
+  if (path[i] === '*') {
+    step = { kind: 'wildcard' };
+    i++;
+  } else if (path[i] === '"' || path[i] === "'") {
+    const quoted = readQuoted(path, i);
+    step = { kind: 'name', name: quoted.name };
+    i = quoted.end;
+  } else {
+    const match = /^-?\d+/.exec(path.slice(i));
+    if (!match) throw new PathError('Expected a list position, "*" or a quoted key after "["', i);
+    step = { kind: 'index', index: parseInt(match[0]) };
+    i += match[0].length;
+  }
+  if (path[i] !== ']') throw new PathError('Expected "]"', i);
+  return { step, end: i + 1 };
+};
+
+const readName = (path: string, start: number): { step: PathStep, end: number } => {
+  let name = '';
+  let i = start;
+  while (i < path.length && !'.['.includes(path[i])) {
+    if (path[i] === ']') throw new PathError('Unexpected "]"', i);
+    if (path[i] === '\\') {
+      i++;
+      if (i >= path.length) throw new PathError('Nothing to escape after "\\"', i - 1);
+    }
+    name += path[i++];
+  }
+  if (!name) throw new PathError('Expected a key name', start);
+  if (path.slice(start, i) === '*') return { step: { kind: 'wildcard' }, end: i };
+  return { step: { kind: 'name', name }, end: i };
+};
+
+export const parsePath = (path: string): PathStep[] => {
+  if (!path) throw new PathError('Empty path', 0);
+  const steps: PathStep[] = [];
+  let i = 0;
+  while (i < path.length) {
+    let read;
+    if (path[i] === '[') {
+      read = readBracket(path, i);
+    } else if (steps.length === 0) {
+      read = readName(path, i);
+    } else if (path[i] === '.') {
+      read = readName(path, i + 1);
+    } else {
+      throw new PathError(`Unexpected "${path[i]}"`, i);
+    }
+    steps.push(read.step);
+    i = read.end;
+  }
+  return steps;
+};
+
+// The error message for a malformed path, or null if it parses
+export const invalidPath = (path: string): string | null => {
+  try {
+    parsePath(path);
+    return null;
+  } catch (err) {
+    return err instanceof PathError ? err.message : String(err);
+  }
+};
+
+const isPlainName = (name: string) =>
+  name !== '' && name !== '*' && name.trim() === name && ![...name].some(char => SPECIAL.includes(char) || char === '"' || char === "'");
+
+const formatStep = (step: PathStep): string => {
+  if (step.kind === 'index') return `[${step.index}]`;
+  if (step.kind === 'wildcard') return '*';
+  return isPlainName(step.name) ? step.name : `[${JSON.stringify(step.name)}]`;
+};
+
+// Extend a canonical path by one step
+export const appendPath = (prefix: string, step: PathStep): string => {
+  const text = formatStep(step);
+  return prefix && !text.startsWith('[') ? `${prefix}.${text}` : `${prefix}${text}`;
+};
+
+// The canonical text for a path: plain names dotted, anything else bracketed
+export const formatPath = (steps: PathStep[]): string => steps.reduce(appendPath, '');
+
+export const hasWildcard = (steps: PathStep[]) => steps.some(step => step.kind === 'wildcard');
+
+export const nameStep = (name: string): PathStep => ({ kind: 'name', name });
+
+// The step that addresses `node` at `index` among its siblings
+export const stepTo = (node: DataNode, index: number, inList: boolean): PathStep =>
+  inList ? { kind: 'index', index } : nameStep(node.name);
+
+// Position of the child `step` addresses in one level of the tree, or -1.
+// `inList` tells a list's items apart from a dictionary's (or the root's) keys.
+// A wildcard addresses no single child.
+export const findStep = (children: DataNode[], inList: boolean, step: PathStep): number => {
+  if (step.kind === 'wildcard') return -1;
+  if (step.kind === 'name') {
+    if (!inList) return children.findIndex(node => node.name === step.name);
+    if (!/^\d+$/.test(step.name)) return -1;
+    const position = parseInt(step.name);
+    return position < children.length ? position : -1;
+  }
+  if (!inList) return -1;
+  const position = step.index < 0 ? children.length + step.index : step.index;
+  return position >= 0 && position < children.length ? position : -1;
+};
+
+// Where a new child addressed by `step` would go: the key name for a dictionary,
+// or the end of a list (the only position a new item can take)
+export const newChildName = (children: DataNode[], inList: boolean, step: PathStep): string | null => {
+  if (step.kind === 'wildcard') return null;
+  if (!inList) return step.kind === 'name' ? step.name : null;
+  const position = step.kind === 'index' ? step.index : /^\d+$/.test(step.name) ? parseInt(step.name) : -1;
+  return position === children.length ? `${position}` : null;
+};
+
+// The canonical path of the node with `id`, or null if it isn't in the tree
+export const pathOfId = (nodes: DataNode[], id: string): string | null => {
+  const walk = (level: DataNode[], inList: boolean): PathStep[] | null => {
+    for (let index = 0; index < level.length; index++) {
+      const node = level[index];
+      const step = stepTo(node, index, inList);
+      if (node.id === id) return [step];
+      if (node.type === 'dictionary' || node.type === 'list') {
+        const rest = walk(node.value as DataNode[], node.type === 'list');
+        if (rest) return [step, ...rest];
+      }
+    }
+    return null;
+  };
+  const steps = walk(nodes, false);
+  return steps ? formatPath(steps) : null;
+};
+
+// Every path in the tree, for autocomplete. Keys inside list items are also
+// offered in wildcard form (`expenses.*.amount`), once per distinct key.
+export const listPaths = (nodes: DataNode[]): string[] => {
+  const paths = new Set<string>();
+  const visit = (level: DataNode[], inList: boolean, prefix: string, wildPrefix: string | null) => {
+    level.forEach((node, index) => {
+      const path = appendPath(prefix, stepTo(node, index, inList));
+      const wild = inList ? appendPath(wildPrefix ?? prefix, { kind: 'wildcard' }) : wildPrefix !== null ? appendPath(wildPrefix, nameStep(node.name)) : null;
+      paths.add(path);
+      if (wild !== null) paths.add(wild);
+      if (node.type === 'dictionary' || node.type === 'list') visit(node.value as DataNode[], node.type === 'list', path, wild);
+    });
+  };
+  visit(nodes, false, '', null);
+  return [...paths];
+};
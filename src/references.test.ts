@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import type { DataNode } from './types';
+import { rewriteReferences } from './references';
+
+const item = (id: string, email: string, key = 'email'): DataNode => ({
+  id,
+  name: id,
+  type: 'dictionary',
+  value: [{ id: `${id}-email`, name: key, type: 'text', value: email }],
+});
+
+const tree = (items: DataNode[], formula: string): DataNode[] => [
+  { id: 'items', name: 'items', type: 'list', value: items.map((node, index) => ({ ...node, name: String(index) })) },
+  { id: 'f', name: 'f', type: 'expression', value: formula },
+];
+
+const formulaOf = (nodes: DataNode[]) => nodes.find(node => node.id === 'f')?.value;
+
+describe('rewriteReferences', () => {
+  it('follows a key that was renamed', () => {
+    const before = tree([item('a', 'a@x')], '{{items[0].email}}');
+    const after = tree([item('a', 'a@x', 'mail')], '{{items[0].email}}');
+    const { nodes, rewritten } = rewriteReferences(before, after);
+    expect(formulaOf(nodes)).toBe('{{items[0].mail}}');
+    expect(rewritten).toEqual(['f']);
+  });
+
+  it('follows an item to its new position', () => {
+    const before = tree([item('a', 'a@x'), item('b', 'b@x')], '{{items[1].email}}');
+    const after = tree([item('b', 'b@x')], '{{items[1].email}}');
+    expect(formulaOf(rewriteReferences(before, after).nodes)).toBe('{{items[0].email}}');
+  });
+
+  it('leaves a position counted from the end alone when the list grows', () => {
+    const formula = '{{items[-1]}} {{items[-1].email}}';
+    const before = tree([item('a', 'a@x'), item('b', 'b@x')], formula);
+    const after = tree([item('a', 'a@x'), item('b', 'b@x'), item('c', 'c@x')], formula);
+    const { nodes, rewritten } = rewriteReferences(before, after);
+    expect(formulaOf(nodes)).toBe(formula);
+    expect(rewritten).toEqual([]);
+  });
+
+  it('keeps counting from the end when it has to rewrite', () => {
+    const before = tree([item('a', 'a@x'), item('b', 'b@x')], '{{items[-1].email}}');
+    const after = tree([item('a', 'a@x', 'mail'), item('b', 'b@x', 'mail')], '{{items[-1].email}}');
+    expect(formulaOf(rewriteReferences(before, after).nodes)).toBe('{{items[-1].mail}}');
+  });
+
+  it('leaves formulas the edit changed alone', () => {
+    const before = tree([item('a', 'a@x')], '{{items[0].email}}');
+    const after = tree([item('a', 'a@x', 'mail')], '{{other}}');
+    expect(formulaOf(rewriteReferences(before, after).nodes)).toBe('{{other}}');
+  });
+});
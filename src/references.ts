@@ -0,0 +1,100 @@
+import type { DataNode } from './types';
+import { findNodeChain, resolveAnchor, resolvePath } from './tree';
+import { appendPath, parsePath, pathOfId, type PathStep } from './paths';
+import { scanReferences } from './expression';
+import { collectExpressions } from './dependencies';
+
+// --- References ---
+//
+// Formulas name their inputs by path, but a path only stays right until a key
+// is renamed, moved or shifted to another list index. Each reference is
+// resolved to the node it points at, so after a restructure the formula can
+// be rewritten to that node's new path.
+
+export interface Reference {
+  expression: DataNode; // The expression node holding the reference
+  expressionPath: string;
+  path: string; // As written in the formula
+  start: number; // Span of the whole {{...}} in the formula
+  end: number;
+  targetId: string | null; // Node the path resolves to (for a wildcard path, the container it expands), if any
+}
+
+export const collectReferences = (nodes: DataNode[]): Reference[] =>
+  collectExpressions(nodes).flatMap(({ node, path: expressionPath }) =>
+    scanReferences(String(node.value ?? '')).map(ref => ({
+      expression: node,
+      expressionPath,
+      ...ref,
+      targetId: resolveAnchor(nodes, ref.path)?.id ?? null,
+    }))
+  );
+
+// Expressions that read `id` or anything inside it
+export const findUsages = (nodes: DataNode[], id: string): Reference[] =>
+  collectReferences(nodes).filter(ref => ref.targetId !== null && findNodeChain(nodes, ref.targetId)?.some(step => step.id === id));
+
+const countsFromEnd = (steps: PathStep[]) => steps.some(step => step.kind === 'index' && step.index < 0);
+
+// `anchor` with the positions that were written from the end of their list
+// (`items[-1]`) counted from the end again
+const keepFromEnd = (nodes: DataNode[], anchor: string, written: PathStep[]): string =>
+  parsePath(anchor).reduce((path, step, depth) => {
+    const original = written[depth];
+    if (step.kind === 'index' && original?.kind === 'index' && original.index < 0) {
+      const list = resolvePath(nodes, path);
+      if (list?.type === 'list') return appendPath(path, { kind: 'index', index: step.index - (list.value as DataNode[]).length });
+    }
+    return appendPath(path, step);
+  }, '');
+
+// Point references in `after` back at the nodes they resolved to in `before`.
+// Only formulas that are unchanged by the edit are touched, and references
+// whose target is gone are left for the user to fix. Returns the paths of the
+// rewritten expressions. A path counted from the end of a list means whichever
+// item is there now, so it is left alone for as long as it still resolves.
+export const rewriteReferences = (before: DataNode[], after: DataNode[]): { nodes: DataNode[], rewritten: string[] } => {
+  const edits = new Map<string, string>();
+  const rewritten: string[] = [];
+
+  const byExpression = new Map<string, Reference[]>();
+  collectReferences(before).forEach(ref => {
+    byExpression.set(ref.expression.id, [...(byExpression.get(ref.expression.id) ?? []), ref]);
+  });
+
+  byExpression.forEach((refs, expressionId) => {
+    const formula = String(refs[0].expression.value ?? '');
+    const current = findNodeChain(after, expressionId);
+    const node = current?.[current.length - 1];
+    if (!node || node.type !== 'expression' || node.value !== formula) return;
+
+    let next = formula;
+    // Right to left so earlier spans stay valid
+    [...refs].reverse().forEach(ref => {
+      if (!ref.targetId) return;
+      const anchor = pathOfId(after, ref.targetId);
+      if (anchor === null || resolveAnchor(after, ref.path)?.id === ref.targetId) return;
+      const steps = parsePath(ref.path);
+      const fromEnd = countsFromEnd(steps);
+      if (fromEnd && resolveAnchor(after, ref.path)) return;
+      const target = fromEnd ? keepFromEnd(after, anchor, steps) : anchor;
+      // Keep a wildcard path's tail ("*.amount") as written
+      const wildcard = steps.findIndex(step => step.kind === 'wildcard');
+      const path = wildcard < 0 ? target : steps.slice(wildcard).reduce(appendPath, target);
+      next = `${next.slice(0, ref.start)}{{${path}}}${next.slice(ref.end)}`;
+    });
+    if (next !== formula) {
+      edits.set(expressionId, next);
+      rewritten.push(pathOfId(after, expressionId) ?? node.name);
+    }
+  });
+
+  if (edits.size === 0) return { nodes: after, rewritten };
+
+  const apply = (nodes: DataNode[]): DataNode[] => nodes.map(node => {
+    if (edits.has(node.id)) return { ...node, value: edits.get(node.id) };
+    if (node.type === 'dictionary' || node.type === 'list') return { ...node, value: apply(node.value as DataNode[]) };
+    return node;
+  });
+  return { nodes: apply(after), rewritten };
+};
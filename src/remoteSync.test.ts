@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DataNode } from './types';
+import { createJarStore, type JarStore } from './jars';
+import { createMemoryAdapter } from './storage';
+import { createSyncServer, type SyncServer } from './syncServer';
+import { memoryStorage } from './testing';
+import { createHttpTransport, createMockTransport, loadSyncState, queueWrite, resetSyncState, syncJar, SyncError, type SyncTransport } from './remoteSync';
+
+const text = (id: string, value: string): DataNode => ({ id, name: id, type: 'text', value });
+const values = (nodes: DataNode[]) => nodes.map(node => `${node.name}=${node.value}`);
+
+describe('syncJar', () => {
+  let server: SyncServer;
+  let transport: SyncTransport;
+  let phone: JarStore;
+  let laptop: JarStore;
+
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+    server = createSyncServer();
+    transport = createMockTransport(server);
+    phone = createJarStore(createMemoryAdapter());
+    laptop = createJarStore(createMemoryAdapter());
+  });
+
+  it('pushes a jar and pulls it on another device', async () => {
+    await syncJar(transport, phone, 'p', 'Main', [text('a', '1')]);
+    const { nodes } = await syncJar(transport, laptop, 'l', 'Main', []);
+    expect(values(nodes)).toEqual(['a=1']);
+    expect(server.pull('Main')?.revision).toBe(1);
+  });
+
+  it('merges edits made on both devices since the last sync', async () => {
+    const shared = (await syncJar(transport, phone, 'p', 'Main', [text('a', '1'), text('b', '1')])).nodes;
+    await syncJar(transport, laptop, 'l', 'Main', []);
+
+    await syncJar(transport, phone, 'p', 'Main', [text('a', '2'), shared[1]]);
+    const outcome = await syncJar(transport, laptop, 'l', 'Main', [shared[0], text('b', '3')]);
+    expect(values(outcome.nodes)).toEqual(['a=2', 'b=3']);
+    expect(outcome.conflicts).toEqual([]);
+    expect(values(server.pull('Main')?.nodes ?? [])).toEqual(['a=2', 'b=3']);
+  });
+
+  it('keeps the local edit when both devices changed the same node', async () => {
+    await syncJar(transport, phone, 'p', 'Main', [text('a', '1')]);
+    await syncJar(transport, laptop, 'l', 'Main', []);
+
+    await syncJar(transport, phone, 'p', 'Main', [text('a', 'phone')]);
+    const outcome = await syncJar(transport, laptop, 'l', 'Main', [text('a', 'laptop')]);
+    expect(values(outcome.nodes)).toEqual(['a=laptop']);
+    expect(outcome.conflicts).toEqual(['a']);
+  });
+
+  it('passes a delete on once both devices share a base', async () => {
+    const shared = (await syncJar(transport, phone, 'p', 'Main', [text('a', '1'), text('b', '1')])).nodes;
+    await syncJar(transport, laptop, 'l', 'Main', []);
+
+    await syncJar(transport, phone, 'p', 'Main', [shared[1]]);
+    const { nodes } = await syncJar(transport, laptop, 'l', 'Main', shared);
+    expect(values(nodes)).toEqual(['b=1']);
+  });
+
+  it('merges as a union after the base is reset', async () => {
+    await syncJar(transport, phone, 'p', 'Main', [text('a', '1')]);
+    resetSyncState(phone, 'p');
+    const { nodes } = await syncJar(transport, phone, 'p', 'Main', [text('b', '1')]);
+    expect(values(nodes)).toEqual(['a=1', 'b=1']);
+  });
+
+  it('retries when another device pushes first', async () => {
+    await syncJar(transport, phone, 'p', 'Main', [text('a', '1')]);
+    let raced = false;
+    const racing: SyncTransport = {
+      pull: transport.pull,
+      push: async (key, revision, nodes) => {
+        if (!raced) {
+          raced = true;
+          await syncJar(transport, laptop, 'l', 'Main', [text('c', '1')]);
+        }
+        return transport.push(key, revision, nodes);
+      },
+    };
+    const { nodes } = await syncJar(racing, phone, 'p', 'Main', [text('a', '1'), text('b', '1')]);
+    // What only the server has goes after its predecessor there
+    expect(values(nodes)).toEqual(['a=1', 'c=1', 'b=1']);
+    expect(server.pull('Main')?.revision).toBe(3);
+  });
+
+  it('keeps only the queue in localStorage and clears what the sync sent', async () => {
+    queueWrite('p', 'Edit a');
+    expect(loadSyncState('p').queue).toHaveLength(1);
+    await syncJar(transport, phone, 'p', 'Main', [text('a', '1')]);
+    expect(loadSyncState('p').queue).toEqual([]);
+    expect(JSON.parse(localStorage.getItem('data-jar-sync:p') ?? '{}')).not.toHaveProperty('base');
+  });
+});
+
+describe('createHttpTransport', () => {
+  it('sends nothing while encryption is on', async () => {
+    vi.stubGlobal('localStorage', memoryStorage());
+    const fetch = vi.fn();
+    vi.stubGlobal('fetch', fetch);
+    localStorage.setItem('data-jar-encryption', JSON.stringify({ salt: '', iterations: 1, check: { iv: '', data: '' }, autoLockMinutes: 0 }));
+    await expect(createHttpTransport('https://sync.example').push('Main', 0, [])).rejects.toBeInstanceOf(SyncError);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
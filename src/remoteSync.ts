@@ -0,0 +1,224 @@
+import type { DataNode } from './types';
+import { jarSyncKey, type JarStore } from './jars';
+import { isEncryptionEnabled, secureStorage } from './encryption';
+import { nodesEqual } from './diff';
+import { mergeTrees, treesEqual } from './merge';
+import { createSyncServer, type PushResult, type RemoteDocument } from './syncServer';
+
+// --- Remote Sync ---
+//
+// Shares a jar between devices through a server speaking the protocol in
+// syncServer.ts. A sync pulls the server copy, three-way merges it with local
+// edits (the base is the tree as of the last successful sync), and pushes the
+// result against the revision it pulled; if another device pushed first the
+// server answers 409 and the cycle repeats. The per-node revisions it pulls
+// tell the merge which nodes the server changed since the base. Local edits are queued while
+// offline and go out on the next successful sync. Jars are matched across
+// devices by name, since ids are generated per device. The server would see
+// the jar in the clear, so an encrypted jar is never sent to one.
+
+export interface SyncTransport {
+  pull(remoteKey: string): Promise<RemoteDocument | null>;
+  push(remoteKey: string, baseRevision: number, nodes: DataNode[]): Promise<PushResult>;
+}
+
+export class SyncError extends Error {
+  offline: boolean; // The server could not be reached; worth retrying later
+
+  constructor(message: string, offline = false) {
+    super(message);
+    this.name = 'SyncError';
+    this.offline = offline;
+  }
+}
+
+export const createHttpTransport = (endpoint: string, token = ''): SyncTransport => {
+  const url = (remoteKey: string) => `${endpoint.replace(/\/+$/, '')}/jars/${encodeURIComponent(remoteKey)}`;
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  const send = async (remoteKey: string, init: RequestInit) => {
+    if (isEncryptionEnabled()) throw new SyncError('Sync is unavailable while encryption is on: the server would receive your data unencrypted');
+    try {
+      return await fetch(url(remoteKey), { ...init, headers });
+    } catch {
+      throw new SyncError('Sync server unreachable', true);
+    }
+  };
+
+  return {
+    pull: async remoteKey => {
+      const res = await send(remoteKey, { method: 'GET' });
+      if (res.status === 404) return null;
+      if (!res.ok) throw new SyncError(`Sync server replied ${res.status}`);
+      return res.json();
+    },
+    push: async (remoteKey, baseRevision, nodes) => {
+      const res = await send(remoteKey, { method: 'PUT', body: JSON.stringify({ baseRevision, nodes }) });
+      if (res.status === 409) return { ok: false, document: await res.json() };
+      if (!res.ok) throw new SyncError(`Sync server replied ${res.status}`);
+      return { ok: true, ...await res.json() };
+    },
+  };
+};
+
+// An in-process server for trying the protocol out; it lives as long as the page
+export const MOCK_ENDPOINT = 'mock:';
+const mockServer = createSyncServer();
+
+export const createMockTransport = (server = mockServer): SyncTransport => ({
+  // Copies stand in for the network so neither side can mutate the other's trees
+  pull: async remoteKey => structuredClone(server.pull(remoteKey)),
+  push: async (remoteKey, baseRevision, nodes) => structuredClone(server.push(remoteKey, baseRevision, structuredClone(nodes))),
+});
+
+// --- Settings ---
+
+export interface SyncSettings {
+  endpoint: string; // An http(s) URL, or MOCK_ENDPOINT
+  token: string;
+}
+
+const SETTINGS_KEY = 'data-jar-sync-settings';
+
+export const loadSyncSettings = (): SyncSettings | null => {
+  const saved = localStorage.getItem(SETTINGS_KEY);
+  if (!saved) return null;
+  try {
+    const parsed = JSON.parse(saved);
+    if (typeof parsed.endpoint === 'string' && parsed.endpoint) return { endpoint: parsed.endpoint, token: String(parsed.token ?? '') };
+  } catch (e) {
+    console.error("Failed to load sync settings", e);
+  }
+  return null;
+};
+
+// Pass null to turn sync off
+export const saveSyncSettings = (settings: SyncSettings | null) => {
+  if (settings) localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  else localStorage.removeItem(SETTINGS_KEY);
+};
+
+export const transportFor = (settings: SyncSettings): SyncTransport =>
+  settings.endpoint === MOCK_ENDPOINT ? createMockTransport() : createHttpTransport(settings.endpoint, settings.token);
+
+// --- Per-Jar State ---
+//
+// The base is a full copy of the jar, so it is kept in the jar store beside the
+// tree. Only the queue, which every edit appends to, stays in localStorage.
+
+export interface PendingWrite {
+  label: string;
+  at: number;
+}
+
+export interface SyncState {
+  queue: PendingWrite[]; // Local edits not yet on the server
+  syncedAt?: number;
+}
+
+interface SyncBase {
+  revision: number; // Server revision `base` was taken at
+  base: DataNode[];
+}
+
+const isSyncBase = (value: unknown): value is SyncBase =>
+  typeof value === 'object' && value !== null && typeof (value as SyncBase).revision === 'number' && Array.isArray((value as SyncBase).base);
+
+const readSyncState = (jarId: string): Record<string, unknown> | null => {
+  const saved = secureStorage.getItem(jarSyncKey(jarId));
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to load sync state", e);
+    return null;
+  }
+};
+
+export const loadSyncState = (jarId: string): SyncState => {
+  const saved = readSyncState(jarId);
+  if (!saved || !Array.isArray(saved.queue)) return { queue: [] };
+  return { queue: saved.queue, syncedAt: typeof saved.syncedAt === 'number' ? saved.syncedAt : undefined };
+};
+
+// Throws if storage is full so the caller can tell the user
+export const saveSyncState = (jarId: string, state: SyncState) => {
+  secureStorage.setItem(jarSyncKey(jarId), JSON.stringify(state));
+};
+
+// Older versions kept the base in localStorage along with the queue
+const loadSyncBase = async (store: JarStore, jarId: string): Promise<SyncBase> => {
+  const saved = await store.loadRecord(jarId, 'sync');
+  if (isSyncBase(saved)) return saved;
+  const legacy = readSyncState(jarId);
+  return legacy && isSyncBase(legacy) ? { revision: legacy.revision, base: legacy.base } : { revision: 0, base: [] };
+};
+
+// A different server has its own revisions: start over from an empty base, which
+// merges as a union rather than reading the old server's nodes as deletions
+export const resetSyncState = (store: JarStore, jarId: string) => {
+  store.saveRecord<SyncBase>(jarId, 'sync', { revision: 0, base: [] });
+  saveSyncState(jarId, { queue: loadSyncState(jarId).queue });
+};
+
+export const queueWrite = (jarId: string, label: string) => {
+  const state = loadSyncState(jarId);
+  saveSyncState(jarId, { ...state, queue: [...state.queue, { label, at: Date.now() }] });
+};
+
+// --- Sync Cycle ---
+
+export type SyncPhase = 'off' | 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  phase: SyncPhase;
+  message?: string;
+  pending: number;
+  syncedAt?: number;
+}
+
+export interface SyncOutcome {
+  base: DataNode[]; // The local tree the sync started from
+  nodes: DataNode[]; // Merged result, now on the server
+  conflicts: string[];
+}
+
+const MAX_ATTEMPTS = 3;
+
+// Conflicting edits keep the local version; the caller merges `nodes` into
+// whatever the tree has become since `base` was read
+export const syncJar = async (transport: SyncTransport, store: JarStore, jarId: string, remoteKey: string, current: DataNode[]): Promise<SyncOutcome> => {
+  const startedAt = Date.now();
+  const conflicts = new Set<string>();
+  let synced = await loadSyncBase(store, jarId);
+  let nodes = current;
+
+  const finish = (revision: number, base: DataNode[]): SyncOutcome => {
+    store.saveRecord<SyncBase>(jarId, 'sync', { revision, base });
+    // Edits queued while this sync was in flight still need to go out
+    const queue = loadSyncState(jarId).queue.filter(write => write.at > startedAt);
+    saveSyncState(jarId, { queue, syncedAt: Date.now() });
+    return { base: current, nodes, conflicts: [...conflicts] };
+  };
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const remote = await transport.pull(remoteKey) ?? { revision: 0, nodes: [], revisions: {} };
+    // The server lost or reset the jar: nothing it lacks should count as deleted
+    if (remote.revision < synced.revision) synced = { ...synced, base: [] };
+    if (remote.revision !== synced.revision) {
+      // A node the server stamped after the base was taken changed there since
+      const since = synced.revision;
+      const merged = mergeTrees(synced.base, nodes, remote.nodes, 'local', (b, r) =>
+        r.id in remote.revisions ? remote.revisions[r.id] > since : !nodesEqual(b, r));
+      merged.conflicts.forEach(path => conflicts.add(path));
+      nodes = merged.nodes;
+      synced = { revision: remote.revision, base: remote.nodes };
+    }
+    if (treesEqual(nodes, remote.nodes)) return finish(remote.revision, remote.nodes);
+
+    const result = await transport.push(remoteKey, remote.revision, nodes);
+    if (result.ok) return finish(result.revision, nodes);
+  }
+  throw new SyncError('Gave up after repeated conflicts with other devices');
+};
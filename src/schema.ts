@@ -0,0 +1,185 @@
+import type { DataNode, DataType, ValidationRules } from './types';
+import { appendPath, stepTo } from './paths';
+
+// --- Validation Rules ---
+//
+// Rules belong to keys rather than values: when an import or a Shortcut
+// replaces a node, the rules at that path carry over to the replacement.
+// A change is rejected only for violations it introduces, so data that was
+// already out of bounds doesn't block unrelated edits. Expressions are not
+// checked; their stored value is the formula.
+
+export interface RuleViolation {
+  path: string;
+  message: string;
+}
+
+export class SchemaError extends Error {
+  violations: RuleViolation[];
+
+  constructor(violations: RuleViolation[]) {
+    super(violations.map(v => `"${v.path}" ${v.message}`).join('; '));
+    this.name = 'SchemaError';
+    this.violations = violations;
+  }
+}
+
+const isContainer = (node: DataNode) => node.type === 'dictionary' || node.type === 'list';
+
+export const hasRules = (rules?: ValidationRules) => !!rules && Object.values(rules).some(rule => rule !== undefined);
+
+export const rulesEqual = (a?: ValidationRules, b?: ValidationRules) =>
+  a === b || (!hasRules(a) && !hasRules(b)) || JSON.stringify(a) === JSON.stringify(b);
+
+export const invalidPattern = (pattern: string): string | null => {
+  try {
+    new RegExp(pattern);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+};
+
+// What min and max measure for a node, or null if they don't apply
+const measure = (node: DataNode): { amount: number, unit: string } | null => {
+  if (node.type === 'number') return { amount: Number(node.value), unit: '' };
+  if (isContainer(node)) return { amount: (node.value as DataNode[]).length, unit: 'items' };
+  if (typeof node.value === 'string') return { amount: node.value.length, unit: 'characters' };
+  return null;
+};
+
+// Problems with a single node against its own rules, worded to follow its path
+export const checkRules = (node: DataNode): string[] => {
+  const rules = node.rules;
+  if (!rules || node.type === 'expression') return [];
+  const problems: string[] = [];
+
+  const size = measure(node);
+  if (size && rules.min !== undefined && size.amount < rules.min) {
+    problems.push(size.unit ? `must have at least ${rules.min} ${size.unit}` : `must be at least ${rules.min}`);
+  }
+  if (size && rules.max !== undefined && size.amount > rules.max) {
+    problems.push(size.unit ? `must have at most ${rules.max} ${size.unit}` : `must be at most ${rules.max}`);
+  }
+  if (rules.pattern && typeof node.value === 'string' && !invalidPattern(rules.pattern) && !new RegExp(rules.pattern).test(node.value)) {
+    problems.push(`must match /${rules.pattern}/`);
+  }
+  if (rules.allowed?.length && !isContainer(node) && !rules.allowed.includes(String(node.value))) {
+    problems.push(`must be one of ${rules.allowed.join(', ')}`);
+  }
+  if (rules.required && node.type === 'dictionary') {
+    const names = new Set((node.value as DataNode[]).map(child => child.name));
+    rules.required.filter(key => !names.has(key)).forEach(key => problems.push(`is missing required key "${key}"`));
+  }
+  return problems;
+};
+
+export const findViolations = (nodes: DataNode[], prefix = '', inList = false): RuleViolation[] =>
+  nodes.flatMap((node, index) => {
+    const path = appendPath(prefix, stepTo(node, index, inList));
+    const own = checkRules(node).map(message => ({ path, message }));
+    return isContainer(node) ? [...own, ...findViolations(node.value as DataNode[], path, node.type === 'list')] : own;
+  });
+
+// Copy rules from `before` onto same-named nodes in `after` that replaced them
+// (a different id) without bringing rules of their own
+export const carryRules = (before: DataNode[], after: DataNode[]): DataNode[] => {
+  let changed = false;
+  const result = after.map(node => {
+    const previous = before.find(candidate => candidate.name === node.name);
+    if (!previous) return node;
+    let next = node;
+    if (previous.id !== node.id && hasRules(previous.rules) && !hasRules(node.rules)) next = { ...next, rules: previous.rules };
+    if (isContainer(previous) && isContainer(node)) {
+      const children = carryRules(previous.value as DataNode[], node.value as DataNode[]);
+      if (children !== node.value) next = { ...next, value: children };
+    }
+    if (next !== node) changed = true;
+    return next;
+  });
+  return changed ? result : after;
+};
+
+const typeLockViolations = (before: DataNode[], after: DataNode[], prefix: string, inList: boolean): RuleViolation[] =>
+  before.flatMap(node => {
+    const index = after.findIndex(candidate => candidate.name === node.name);
+    const next = after[index];
+    if (!next) return [];
+    const path = appendPath(prefix, stepTo(next, index, inList));
+    const own = node.rules?.lockType && next.type !== node.type ? [{ path, message: `is locked to ${node.type}, not ${next.type}` }] : [];
+    return isContainer(node) && isContainer(next)
+      ? [...own, ...typeLockViolations(node.value as DataNode[], next.value as DataNode[], path, next.type === 'list')]
+      : own;
+  });
+
+// Check a proposed change, returning `after` with rules carried over. Throws
+// SchemaError listing every violation the change would introduce.
+export const enforceRules = (before: DataNode[], after: DataNode[], prefix = '', inList = false): DataNode[] => {
+  const next = carryRules(before, after);
+  const key = (v: RuleViolation) => `${v.path}\n${v.message}`;
+  const existing = new Set(findViolations(before, prefix, inList).map(key));
+  const locked = typeLockViolations(before, next, prefix, inList);
+  // A wrong type already says it all; its value checks would only add noise
+  const lockedPaths = new Set(locked.map(v => v.path));
+  const introduced = [
+    ...locked,
+    ...findViolations(next, prefix, inList).filter(v => !existing.has(key(v)) && !lockedPaths.has(v.path)),
+  ];
+  if (introduced.length > 0) throw new SchemaError(introduced);
+  return next;
+};
+
+// --- JSON Schema ---
+
+type JsonSchema = Record<string, unknown>;
+
+const TYPE_SCHEMAS: Record<DataType, JsonSchema> = {
+  text: { type: 'string' },
+  number: { type: 'number' },
+  boolean: { type: 'boolean' },
+  date: { type: 'string', anyOf: [{ format: 'date' }, { format: 'date-time' }] },
+  color: { type: 'string', pattern: '^#[0-9a-f]{6}$' },
+  url: { type: 'string', format: 'uri' },
+  secret: { type: 'string', writeOnly: true },
+  null: { type: 'null' },
+  dictionary: { type: 'object' },
+  list: { type: 'array' },
+  expression: { readOnly: true },
+};
+
+const nodeSchema = (node: DataNode): JsonSchema => {
+  const schema: JsonSchema = { ...TYPE_SCHEMAS[node.type] };
+  const rules = node.rules ?? {};
+
+  if (node.type === 'dictionary') {
+    schema.properties = nodesSchema(node.value as DataNode[]).properties;
+    if (rules.required?.length) schema.required = rules.required;
+  } else if (node.type === 'list') {
+    const items = node.value as DataNode[];
+    if (items.length > 0 && items.every(item => item.type === items[0].type)) schema.items = { ...TYPE_SCHEMAS[items[0].type] };
+  } else if (node.type === 'expression') {
+    schema.description = `Expression: ${node.value}`;
+  }
+
+  const [minKey, maxKey] = node.type === 'number' ? ['minimum', 'maximum'] : node.type === 'list' ? ['minItems', 'maxItems']
+    : node.type === 'dictionary' ? ['minProperties', 'maxProperties'] : ['minLength', 'maxLength'];
+  if (rules.min !== undefined) schema[minKey] = rules.min;
+  if (rules.max !== undefined) schema[maxKey] = rules.max;
+  if (rules.pattern) schema.pattern = rules.pattern;
+  if (rules.allowed?.length) schema.enum = node.type === 'number' ? rules.allowed.map(Number) : rules.allowed;
+  if (rules.default !== undefined) schema.default = rules.default;
+  if (rules.readOnly) schema.readOnly = true;
+  return schema;
+};
+
+const nodesSchema = (nodes: DataNode[]): JsonSchema => ({
+  type: 'object',
+  properties: Object.fromEntries(nodes.map(node => [node.name, nodeSchema(node)])),
+});
+
+// Describe a jar's shape and rules as a JSON Schema (draft 2020-12)
+export const exportJsonSchema = (nodes: DataNode[], title: string): JsonSchema => ({
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  title,
+  ...nodesSchema(nodes),
+});
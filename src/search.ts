@@ -0,0 +1,48 @@
+import type { DataNode, DataType } from './types';
+import { displayValue } from './dataTypes';
+import { appendPath, stepTo } from './paths';
+
+// --- Search ---
+
+export type MatchField = 'name' | 'value' | 'formula';
+
+export interface SearchResult {
+  node: DataNode;
+  ancestors: DataNode[]; // Containers from the root down to the node's parent
+  path: string; // Full dotted path
+  field: MatchField; // What the query matched first
+}
+
+const isContainer = (node: DataNode) => node.type === 'dictionary' || node.type === 'list';
+
+// Which part of a node matches, if any; secrets never match on their value
+const matchField = (node: DataNode, query: string): MatchField | null => {
+  if (node.name.toLowerCase().includes(query)) return 'name';
+  if (isContainer(node) || node.type === 'secret') return null;
+  if (node.type === 'expression') return String(node.value).toLowerCase().includes(query) ? 'formula' : null;
+  const raw = String(node.value ?? '').toLowerCase();
+  return raw.includes(query) || displayValue(node).toLowerCase().includes(query) ? 'value' : null;
+};
+
+// Every node at any depth matching `query` (case-insensitive) and, when given, one of `types`.
+// An empty query lists everything of the chosen types.
+export const searchTree = (nodes: DataNode[], query: string, types: DataType[] = [], limit = 100): SearchResult[] => {
+  const needle = query.trim().toLowerCase();
+  const results: SearchResult[] = [];
+
+  const visit = (level: DataNode[], ancestors: DataNode[], prefix: string) => {
+    const inList = ancestors[ancestors.length - 1]?.type === 'list';
+    for (const [index, node] of level.entries()) {
+      if (results.length >= limit) return;
+      const path = appendPath(prefix, stepTo(node, index, inList));
+      if (types.length === 0 || types.includes(node.type)) {
+        const field = needle ? matchField(node, needle) : 'name';
+        if (field && (needle || types.length > 0)) results.push({ node, ancestors, path, field });
+      }
+      if (isContainer(node)) visit(node.value as DataNode[], [...ancestors, node], path);
+    }
+  };
+
+  visit(nodes, [], '');
+  return results;
+};
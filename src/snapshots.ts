@@ -0,0 +1,55 @@
+import type { DataNode } from './types';
+import { generateId } from './tree';
+import type { JarStore } from './jars';
+
+// --- Snapshots ---
+//
+// Point-in-time copies of the whole jar. Manual snapshots are kept until
+// deleted; automatic ones (daily, before imports) are capped and can be pruned.
+
+export type SnapshotKind = 'manual' | 'daily' | 'pre-import';
+
+export interface Snapshot {
+  id: string;
+  label: string;
+  kind: SnapshotKind;
+  createdAt: number;
+  data: DataNode[];
+}
+
+export const AUTO_SNAPSHOT_LIMIT = 30;
+export const PRUNE_AFTER_DAYS = 30;
+
+export const createSnapshot = (data: DataNode[], label: string, kind: SnapshotKind): Snapshot => ({
+  id: generateId(),
+  label,
+  kind,
+  createdAt: Date.now(),
+  data,
+});
+
+// Add a snapshot (newest first), keeping only the most recent automatic ones
+export const addSnapshot = (snapshots: Snapshot[], snapshot: Snapshot): Snapshot[] => {
+  let automatic = 0;
+  return [snapshot, ...snapshots].filter(s => s.kind === 'manual' || ++automatic <= AUTO_SNAPSHOT_LIMIT);
+};
+
+const startOfDay = (time: number) => new Date(time).setHours(0, 0, 0, 0);
+
+export const needsDailySnapshot = (snapshots: Snapshot[], now = Date.now()) =>
+  !snapshots.some(s => s.kind === 'daily' && s.createdAt >= startOfDay(now));
+
+// Drop automatic snapshots older than the cutoff; manual ones are only removed explicitly
+export const pruneSnapshots = (snapshots: Snapshot[], olderThanDays = PRUNE_AFTER_DAYS, now = Date.now()) => {
+  const cutoff = now - olderThanDays * 24 * 60 * 60 * 1000;
+  return snapshots.filter(s => s.kind === 'manual' || s.createdAt >= cutoff);
+};
+
+export const loadSnapshots = async (store: JarStore, jarId: string): Promise<Snapshot[]> => {
+  const saved = await store.loadRecord(jarId, 'snapshots');
+  return Array.isArray(saved) ? saved : [];
+};
+
+// A full store is reported through the jar store's error handler
+export const saveSnapshots = (store: JarStore, jarId: string, snapshots: Snapshot[]) =>
+  store.saveRecord(jarId, 'snapshots', snapshots);
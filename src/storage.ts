@@ -0,0 +1,130 @@
+// --- Storage Adapters ---
+//
+// Jar trees are persisted through a small key-value interface so the backend
+// can be swapped: IndexedDB where the browser offers it, localStorage as a
+// fallback, and an in-memory store for tests. Values are plain JSON-able data.
+
+export interface StorageChanges {
+  set?: Record<string, unknown>;
+  remove?: string[];
+}
+
+export interface StorageAdapter {
+  readonly label: string;
+  // Values for the given keys, undefined where missing
+  read(keys: string[]): Promise<unknown[]>;
+  // Apply all changes together (atomically where the backend allows)
+  write(changes: StorageChanges): Promise<void>;
+  keys(prefix: string): Promise<string[]>;
+}
+
+// Browsers disagree on how a full store is reported
+export const isQuotaError = (err: unknown) =>
+  err instanceof DOMException && (err.name === 'QuotaExceededError' || err.name === 'NS_ERROR_DOM_QUOTA_REACHED' || err.code === 22);
+
+export const createMemoryAdapter = (): StorageAdapter => {
+  const store = new Map<string, unknown>();
+  return {
+    label: 'Memory',
+    read: async keys => keys.map(key => store.get(key)),
+    write: async ({ set = {}, remove = [] }) => {
+      Object.entries(set).forEach(([key, value]) => store.set(key, value));
+      remove.forEach(key => store.delete(key));
+    },
+    keys: async prefix => [...store.keys()].filter(key => key.startsWith(prefix)),
+  };
+};
+
+export const createLocalStorageAdapter = (namespace = 'data-jar-store:'): StorageAdapter => ({
+  label: 'Local storage',
+  read: async keys => keys.map(key => {
+    const saved = localStorage.getItem(namespace + key);
+    return saved === null ? undefined : JSON.parse(saved);
+  }),
+  write: async ({ set = {}, remove = [] }) => {
+    // localStorage has no transactions: on failure, put back what was already written
+    const previous = new Map<string, string | null>();
+    try {
+      Object.entries(set).forEach(([key, value]) => {
+        previous.set(key, localStorage.getItem(namespace + key));
+        localStorage.setItem(namespace + key, JSON.stringify(value));
+      });
+    } catch (err) {
+      previous.forEach((value, key) => {
+        if (value === null) localStorage.removeItem(namespace + key);
+        else localStorage.setItem(namespace + key, value);
+      });
+      throw err;
+    }
+    remove.forEach(key => localStorage.removeItem(namespace + key));
+  },
+  keys: async prefix => {
+    const found: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(namespace + prefix)) found.push(key.slice(namespace.length));
+    }
+    return found;
+  },
+});
+
+const DB_NAME = 'data-jar';
+const STORE_NAME = 'records';
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const createIndexedDbAdapter = async (): Promise<StorageAdapter> => {
+  const db = await openDatabase();
+  const transaction = (mode: IDBTransactionMode) => db.transaction(STORE_NAME, mode);
+
+  return {
+    label: 'IndexedDB',
+    read: keys => {
+      const store = transaction('readonly').objectStore(STORE_NAME);
+      return Promise.all(keys.map(key => requestToPromise(store.get(key))));
+    },
+    write: ({ set = {}, remove = [] }) => new Promise<void>((resolve, reject) => {
+      const tx = transaction('readwrite');
+      const store = tx.objectStore(STORE_NAME);
+      Object.entries(set).forEach(([key, value]) => store.put(value, key));
+      remove.forEach(key => store.delete(key));
+      tx.oncomplete = () => resolve();
+      // A quota failure aborts the transaction, reporting the error on it
+      tx.onabort = () => reject(tx.error);
+      tx.onerror = () => reject(tx.error);
+    }),
+    keys: async prefix => {
+      const store = transaction('readonly').objectStore(STORE_NAME);
+      const found = await requestToPromise(store.getAllKeys(IDBKeyRange.bound(prefix, `${prefix}\uffff`)));
+      return found.map(String);
+    },
+  };
+};
+
+// The best backend available: IndexedDB, then localStorage, then memory (nothing survives a reload)
+export const openDefaultAdapter = async (): Promise<StorageAdapter> => {
+  if (typeof indexedDB !== 'undefined') {
+    try {
+      return await createIndexedDbAdapter();
+    } catch (e) {
+      console.error("IndexedDB unavailable, falling back to local storage", e);
+    }
+  }
+  try {
+    localStorage.setItem('data-jar-probe', '');
+    localStorage.removeItem('data-jar-probe');
+    return createLocalStorageAdapter();
+  } catch {
+    return createMemoryAdapter();
+  }
+};
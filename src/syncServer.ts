@@ -0,0 +1,62 @@
+import type { DataNode } from './types';
+import { nodesEqual } from './diff';
+
+// --- Reference Sync Server ---
+//
+// The server side of the remote sync protocol (see remoteSync.ts), kept free
+// of any HTTP so it can run in-process as a mock or behind a tiny handler:
+//   GET  {endpoint}/jars/{jarId}  -> 200 RemoteDocument | 404
+//   PUT  {endpoint}/jars/{jarId}  <- { baseRevision, nodes }
+//                                 -> 200 { revision, revisions } | 409 RemoteDocument
+// Every accepted push bumps the jar's revision; each node records the revision
+// it last changed in, so clients can see what moved since they last synced.
+
+export interface RemoteDocument {
+  revision: number;
+  nodes: DataNode[];
+  revisions: Record<string, number>; // Node id -> revision it last changed in
+}
+
+export type PushResult =
+  | { ok: true, revision: number, revisions: Record<string, number> }
+  | { ok: false, document: RemoteDocument }; // Someone pushed first: merge and retry
+
+const flatten = (nodes: DataNode[], into = new Map<string, DataNode>()) => {
+  nodes.forEach(node => {
+    into.set(node.id, node);
+    if (node.type === 'dictionary' || node.type === 'list') flatten(node.value as DataNode[], into);
+  });
+  return into;
+};
+
+// Carry forward the revision of unchanged nodes; stamp new or changed ones with `revision`
+export const stampRevisions = (previous: RemoteDocument | undefined, nodes: DataNode[], revision: number) => {
+  const before = flatten(previous?.nodes ?? []);
+  const revisions: Record<string, number> = {};
+  flatten(nodes).forEach((node, id) => {
+    const old = before.get(id);
+    revisions[id] = old && nodesEqual(old, node) ? previous?.revisions[id] ?? revision : revision;
+  });
+  return revisions;
+};
+
+export const createSyncServer = () => {
+  const jars = new Map<string, RemoteDocument>();
+
+  return {
+    pull: (jarId: string): RemoteDocument | null => jars.get(jarId) ?? null,
+
+    push: (jarId: string, baseRevision: number, nodes: DataNode[]): PushResult => {
+      const current = jars.get(jarId);
+      if ((current?.revision ?? 0) !== baseRevision) {
+        return { ok: false, document: current ?? { revision: 0, nodes: [], revisions: {} } };
+      }
+      const revision = baseRevision + 1;
+      const revisions = stampRevisions(current, nodes, revision);
+      jars.set(jarId, { revision, nodes, revisions });
+      return { ok: true, revision, revisions };
+    },
+  };
+};
+
+export type SyncServer = ReturnType<typeof createSyncServer>;
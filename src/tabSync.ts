@@ -0,0 +1,62 @@
+import type { DataNode } from './types';
+import { generateId } from './tree';
+import type { ChangeSource } from './changeLog';
+
+// --- Cross-Tab Sync ---
+//
+// Every committed change is broadcast to the other open tabs as the tree before
+// and after it, so a receiving tab can three-way merge it into its own state
+// (see merge.ts). Uses BroadcastChannel, falling back to `storage` events.
+
+export type TabMessage =
+  // `source` and `label` describe the change for the change log; merge echoes carry neither
+  | { kind: 'change', tabId: string, jarId: string, at: number, before: DataNode[], after: DataNode[], source?: ChangeSource, label?: string }
+  | { kind: 'jars', tabId: string }; // The jar list was edited
+
+// Identifies this tab's own messages; also the tie-breaker when two tabs conflict
+export const TAB_ID = generateId();
+
+const CHANNEL_NAME = 'data-jar-sync';
+const STORAGE_KEY = 'data-jar-sync-message';
+
+export interface TabChannel {
+  post(message: TabMessage): void;
+  close(): void;
+}
+
+export const openTabChannel = (onMessage: (message: TabMessage) => void): TabChannel => {
+  const receive = (message: TabMessage) => {
+    if (message.tabId !== TAB_ID) onMessage(message);
+  };
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = e => receive(e.data);
+    return {
+      post: message => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  // Other tabs see a `storage` event for each write; removing the key right away keeps storage clean
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== STORAGE_KEY || !e.newValue) return;
+    try {
+      receive(JSON.parse(e.newValue));
+    } catch (err) {
+      console.error("Ignoring malformed sync message", err);
+    }
+  };
+  window.addEventListener('storage', onStorage);
+  return {
+    post: message => {
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(message));
+        localStorage.removeItem(STORAGE_KEY);
+      } catch (err) {
+        console.error("Could not broadcast change to other tabs", err);
+      }
+    },
+    close: () => window.removeEventListener('storage', onStorage),
+  };
+};
@@ -0,0 +1,69 @@
+import type { DataNode } from './types';
+import { resolveAnchor, resolvePath } from './tree';
+import { SECRET_MASK } from './dataTypes';
+import {
+  ExpressionError,
+  evaluateExpression,
+  formatValue,
+  referencesSecret,
+  resolveReference,
+  scanReferences,
+  typeOfValue,
+  type EvaluationResult,
+  type ExpressionLookup,
+  type Value,
+} from './expression';
+
+// --- Expression Trace ---
+//
+// What the formula editor shows while typing: every reference with what it
+// resolved to, the formula with those values written in, and the result.
+
+export interface TraceStep {
+  path: string;
+  start: number; // Span of the whole {{...}} in the formula
+  end: number;
+  type?: string; // Stored type, or for expressions and wildcards the type of the value
+  value?: Value;
+  secret?: boolean; // Shown masked, like the secret it was read from
+  error?: string;
+  missing: boolean; // The key doesn't exist, as opposed to failing to evaluate
+}
+
+export interface ExpressionTrace {
+  steps: TraceStep[];
+  substituted: string;
+  result: EvaluationResult;
+}
+
+// How a value would be written as a literal in a formula
+const asLiteral = (value: Value) => (typeof value === 'string' ? JSON.stringify(value) : formatValue(value));
+
+export const stepValue = (step: TraceStep) => (step.secret ? SECRET_MASK : formatValue(step.value ?? null));
+
+const traceStep = (root: DataNode[], ref: { path: string, start: number, end: number }, lookup: ExpressionLookup): TraceStep => {
+  try {
+    const value = resolveReference(root, ref.path, lookup, ref.start);
+    const node = resolvePath(root, ref.path);
+    const type = node && node.type !== 'expression' ? node.type : typeOfValue(value);
+    return { ...ref, type, value, secret: referencesSecret(root, ref.path, lookup), missing: false };
+  } catch (err) {
+    return {
+      ...ref,
+      error: err instanceof ExpressionError ? err.reason : String(err),
+      missing: !resolveAnchor(root, ref.path),
+    };
+  }
+};
+
+export const traceExpression = (formula: string, root: DataNode[], lookup: ExpressionLookup): ExpressionTrace => {
+  const steps = scanReferences(formula).map(ref => traceStep(root, ref, lookup));
+
+  // Right to left so earlier spans stay valid
+  const substituted = [...steps].reverse().reduce(
+    (text, step) => (step.error ? text : `${text.slice(0, step.start)}${step.secret ? SECRET_MASK : asLiteral(step.value ?? null)}${text.slice(step.end)}`),
+    formula
+  );
+
+  return { steps, substituted, result: evaluateExpression(formula, root, lookup) };
+};
@@ -0,0 +1,219 @@
+import type { DataNode, DataType } from './types';
+import { PathError, appendPath, findStep, formatPath, hasWildcard, newChildName, parsePath, stepTo, type PathStep } from './paths';
+
+// --- Tree Utils ---
+
+export const generateId = () => Math.random().toString(36).substr(2, 9);
+
+// Every node `steps` reach from one level, expanding wildcards in order
+const matchSteps = (level: DataNode[], inList: boolean, [step, ...rest]: PathStep[]): DataNode[] => {
+  const here = step.kind === 'wildcard' ? level : [level[findStep(level, inList, step)]].filter(Boolean);
+  if (rest.length === 0) return here;
+  return here.flatMap(node =>
+    node.type === 'dictionary' || node.type === 'list' ? matchSteps(node.value as DataNode[], node.type === 'list', rest) : []
+  );
+};
+
+const parseOrNull = (path: string): PathStep[] | null => {
+  try {
+    return parsePath(path);
+  } catch {
+    return null;
+  }
+};
+
+// Resolve a path like "config.theme.color" or "users[0].name" in the data tree (see paths.ts).
+// A malformed path, or one with a wildcard, resolves to nothing.
+export const resolvePath = (root: DataNode[], path: string): DataNode | undefined => {
+  const steps = parseOrNull(path);
+  if (!steps || hasWildcard(steps)) return undefined;
+  return matchSteps(root, false, steps)[0]; // The root holds keys, like a dictionary
+};
+
+// The node a path hangs off: the node itself, or for a wildcard path like
+// "expenses.*.amount" the container before the first wildcard ("expenses")
+export const resolveAnchor = (root: DataNode[], path: string): DataNode | undefined => {
+  const steps = parseOrNull(path);
+  if (!steps) return undefined;
+  const wildcard = steps.findIndex(step => step.kind === 'wildcard');
+  if (wildcard === 0) return undefined;
+  return matchSteps(root, false, wildcard < 0 ? steps : steps.slice(0, wildcard))[0];
+};
+
+// Every node a wildcard path reaches, in tree order; children without the rest
+// of the path are skipped. Undefined when the anchor itself doesn't exist.
+export const resolveAll = (root: DataNode[], path: string): DataNode[] | undefined => {
+  const anchor = resolveAnchor(root, path);
+  if (!anchor) return undefined;
+  return matchSteps(root, false, parsePath(path));
+};
+
+const cannotCreate = (step: PathStep, inList: boolean): string => {
+  if (step.kind === 'wildcard') return 'Wildcards can only be read, not written';
+  if (!inList) return `${formatPath([step])} is a list position, but this is not a list`;
+  if (step.kind === 'name' && !/^\d+$/.test(step.name)) return `List items are addressed by position, not "${step.name}"`;
+  return `There is no item ${formatPath([step])} in this list; new items can only go at the end`;
+};
+
+const updateSteps = (
+  nodes: DataNode[],
+  inList: boolean,
+  [step, ...rest]: PathStep[],
+  update: (node: DataNode | undefined, name: string) => DataNode | null
+): DataNode[] => {
+  const existingIndex = findStep(nodes, inList, step);
+  const node = existingIndex >= 0 ? nodes[existingIndex] : undefined;
+  const name = node?.name ?? newChildName(nodes, inList, step);
+
+  let replacement: DataNode | null;
+  if (!node) {
+    if (rest.length === 0) {
+      replacement = update(undefined, name ?? '');
+    } else {
+      const children = updateSteps([], false, rest, update);
+      replacement = children.length ? { id: generateId(), name: name ?? '', type: 'dictionary', value: children } : null;
+    }
+    if (replacement && name === null) throw new PathError(cannotCreate(step, inList), 0);
+  } else if (rest.length === 0) {
+    replacement = update(node, node.name);
+  } else if (node.type === 'dictionary' || node.type === 'list') {
+    replacement = { ...node, value: updateSteps(node.value as DataNode[], node.type === 'list', rest, update) };
+  } else {
+    return nodes; // Cannot traverse non-container
+  }
+
+  if (existingIndex < 0) return replacement ? [...nodes, replacement] : nodes;
+  return [
+    ...nodes.slice(0, existingIndex),
+    ...(replacement ? [replacement] : []),
+    ...nodes.slice(existingIndex + 1)
+  ];
+};
+
+// Apply `update` to the node at `pathStr`, rebuilding every container on the way down.
+// `update` receives undefined when the node doesn't exist yet; returning null removes it.
+// Missing intermediate keys are created as dictionaries, and a missing list item only
+// at the end of its list. Throws a PathError for a malformed path or one that can't be created.
+export const updateDeepNode = (
+  nodes: DataNode[],
+  pathStr: string,
+  update: (node: DataNode | undefined, name: string) => DataNode | null
+): DataNode[] => updateSteps(nodes, false, parsePath(pathStr), update);
+
+// Set (or create) the value at a path, replacing the node's type as well
+export const setDeepValue = (nodes: DataNode[], pathStr: string, value: unknown, type: DataType = 'text'): DataNode[] =>
+  updateDeepNode(nodes, pathStr, (node, name) =>
+    node ? { ...node, value, type } : { id: generateId(), name, type, value }
+  );
+
+// List items are named after their position; keep the names in step after inserts and removals
+export const renumberList = (items: DataNode[]): DataNode[] =>
+  items.map((item, index) => (item.name === `${index}` ? item : { ...item, name: `${index}` }));
+
+// Merge `incoming` nodes into `existing` by key name: dictionaries merge recursively,
+// anything else is replaced (keeping the existing id so references stay stable, and
+// the existing rules unless the incoming node has its own)
+export const mergeNodes = (existing: DataNode[], incoming: DataNode[]): DataNode[] => {
+  const result = [...existing];
+  incoming.forEach(node => {
+    const index = result.findIndex(candidate => candidate.name === node.name);
+    if (index < 0) {
+      result.push(node);
+      return;
+    }
+    const current = result[index];
+    result[index] = current.type === 'dictionary' && node.type === 'dictionary'
+      ? { ...current, value: mergeNodes(current.value as DataNode[], node.value as DataNode[]) }
+      : { ...node, id: current.id, rules: node.rules ?? current.rules };
+  });
+  return result;
+};
+
+// --- Restructuring ---
+
+export class TreeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TreeError';
+  }
+}
+
+const isContainer = (node: DataNode) => node.type === 'dictionary' || node.type === 'list';
+
+// Deep copy with fresh ids throughout, so the copy syncs and merges as a new node
+export const cloneNode = (node: DataNode): DataNode => ({
+  ...node,
+  id: generateId(),
+  value: isContainer(node) ? (node.value as DataNode[]).map(cloneNode) : node.value,
+});
+
+// "name", then "name 2", "name 3"... until it is free among `siblings`
+export const uniqueName = (siblings: DataNode[], name: string): string => {
+  const taken = new Set(siblings.map(node => node.name));
+  if (!taken.has(name)) return name;
+  let n = 2;
+  while (taken.has(`${name} ${n}`)) n++;
+  return `${name} ${n}`;
+};
+
+export const checkKeyName = (siblings: DataNode[], name: string, ignoreId?: string) => {
+  if (!name.trim()) throw new TreeError('Key names cannot be empty');
+  if (siblings.some(node => node.name === name && node.id !== ignoreId)) throw new TreeError(`There is already a key named "${name}" here`);
+};
+
+// The chain of nodes from the root down to the node with `id`, or null if it isn't in the tree
+export const findNodeChain = (nodes: DataNode[], id: string): DataNode[] | null => {
+  for (const node of nodes) {
+    if (node.id === id) return [node];
+    if (isContainer(node)) {
+      const chain = findNodeChain(node.value as DataNode[], id);
+      if (chain) return [node, ...chain];
+    }
+  }
+  return null;
+};
+
+// Rebuild the tree with the children of container `parentId` (null for the root) replaced
+const updateChildren = (nodes: DataNode[], parentId: string | null, update: (children: DataNode[], parent?: DataNode) => DataNode[]): DataNode[] => {
+  if (parentId === null) return update(nodes);
+  return nodes.map(node => {
+    if (!isContainer(node)) return node;
+    if (node.id === parentId) return { ...node, value: update(node.value as DataNode[], node) };
+    const children = updateChildren(node.value as DataNode[], parentId, update);
+    return children === node.value ? node : { ...node, value: children };
+  });
+};
+
+// Move a node into another container (null for the root), appending it there.
+// List items are renumbered on both ends; a dictionary refuses a duplicate key.
+export const moveNode = (nodes: DataNode[], id: string, targetId: string | null): DataNode[] => {
+  const chain = findNodeChain(nodes, id);
+  if (!chain) throw new TreeError('That key no longer exists');
+  const node = chain[chain.length - 1];
+  const parent = chain.length > 1 ? chain[chain.length - 2] : null;
+  if ((parent?.id ?? null) === targetId) return nodes;
+
+  const target = targetId === null ? null : findNodeChain(nodes, targetId);
+  if (targetId !== null && !target) throw new TreeError('The destination no longer exists');
+  if (target?.some(step => step.id === id)) throw new TreeError(`Cannot move "${node.name}" into itself`);
+  const destination = target ? target[target.length - 1] : null;
+  if (destination && !isContainer(destination)) throw new TreeError(`"${destination.name}" is not a dictionary or list`);
+
+  const removed = updateChildren(nodes, parent?.id ?? null, children => {
+    const rest = children.filter(child => child.id !== id);
+    return parent?.type === 'list' ? renumberList(rest) : rest;
+  });
+  return updateChildren(removed, targetId, (children, container) => {
+    if (container?.type === 'list') return renumberList([...children, node]);
+    checkKeyName(children, node.name);
+    return [...children, node];
+  });
+};
+
+// Every container in the tree with its dotted path, in display order
+export const listContainers = (nodes: DataNode[], prefix = '', inList = false): { node: DataNode, path: string }[] =>
+  nodes.flatMap((node, index) => {
+    if (!isContainer(node)) return [];
+    const path = appendPath(prefix, stepTo(node, index, inList));
+    return [{ node, path }, ...listContainers(node.value as DataNode[], path, node.type === 'list')];
+  });
@@ -0,0 +1,27 @@
+// --- Types ---
+
+export type DataType =
+  | 'text' | 'number' | 'boolean'
+  | 'date' | 'color' | 'url' | 'secret' | 'null'
+  | 'dictionary' | 'list' | 'expression';
+
+// Optional constraints on a node, enforced by schema.ts
+export interface ValidationRules {
+  min?: number; // Smallest number, text length or item count
+  max?: number;
+  pattern?: string; // Regular expression text values must match
+  allowed?: string[]; // Permitted values, compared as text
+  required?: string[]; // Child keys a dictionary must keep
+  lockType?: boolean; // Writes may not change the node's type
+  default?: unknown; // Used when a write supplies no value
+  readOnly?: boolean; // Shortcuts may not change the node or anything inside it
+}
+
+export interface DataNode {
+  id: string;
+  type: DataType;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  value: any; // string | number | boolean | null | DataNode[]
+  name: string; // Key name (used if parent is dictionary)
+  rules?: ValidationRules;
+}
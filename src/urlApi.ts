@@ -0,0 +1,370 @@
+import type { DataNode, DataType } from './types';
+import { generateId, mergeNodes, renumberList, resolveAll, resolvePath, setDeepValue, updateDeepNode } from './tree';
+import { parseImport, parseJson } from './importer';
+import { nodeToJson } from './exporter';
+import { evaluateExpression, formatValue } from './expression';
+import { isDataType, parseTypedValue, ValueError } from './dataTypes';
+import { enforceRules, SchemaError } from './schema';
+import { formatPath, hasWildcard, invalidPath, parsePath, PathError } from './paths';
+
+// --- URL API ---
+//
+// Shortcuts drives the jar through query strings such as
+//   ?action=increment&key=stats.runs&value=1
+// Keys use the path syntax in paths.ts, e.g. key=users[0]["first.name"].
+// Each write action is a pure transformation of the tree and each read action
+// a pure lookup; anything that doesn't apply throws an ApiError so the caller
+// can surface it (or hand it back through x-error).
+
+export const WRITE_ACTIONS = ['set', 'delete', 'append', 'prepend', 'increment', 'decrement', 'toggle', 'merge'] as const;
+export const READ_ACTIONS = ['get', 'evaluate'] as const;
+export const API_ACTIONS = [...WRITE_ACTIONS, ...READ_ACTIONS] as const;
+
+export type WriteAction = typeof WRITE_ACTIONS[number];
+export type ReadAction = typeof READ_ACTIONS[number];
+export type ApiAction = typeof API_ACTIONS[number];
+
+export const ACTION_DESCRIPTIONS: Record<ApiAction, string> = {
+  set: 'Set a value, creating the key if needed',
+  delete: 'Remove the key',
+  append: 'Add an item to the end of a list',
+  prepend: 'Add an item to the start of a list',
+  increment: 'Add an amount to a number',
+  decrement: 'Subtract an amount from a number',
+  toggle: 'Flip a boolean',
+  merge: 'Deep-merge a JSON object into a dictionary',
+  get: 'Return the stored value through x-success (a JSON array for a wildcard key like items.*.name)',
+  evaluate: 'Return the result of an expression through x-success',
+};
+
+// Which builder fields each action uses
+export const actionTakesValue = (action: ApiAction) => !['delete', 'toggle', 'get', 'evaluate'].includes(action);
+export const actionTakesType = (action: ApiAction) => ['set', 'append', 'prepend'].includes(action);
+
+export type ApiErrorCode = 'missing_key' | 'type_mismatch' | 'invalid_value' | 'rule_violation' | 'invalid_path' | 'invalid_batch' | 'unauthorized' | 'forbidden' | 'unknown_action' | 'evaluation_failed' | 'unknown_jar';
+
+export class ApiError extends Error {
+  code: ApiErrorCode;
+
+  constructor(code: ApiErrorCode, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+  }
+}
+
+export interface ApiRequest {
+  action: string;
+  key: string;
+  value: string;
+  type: string;
+  // Jar id or name; the open jar when omitted
+  jar?: string;
+  // Raw `ops=` parameter: a batch of write operations instead of one key/value
+  ops?: string;
+}
+
+const isWriteAction = (action: string): action is WriteAction => (WRITE_ACTIONS as readonly string[]).includes(action);
+export const isReadAction = (action: string): action is ReadAction => (READ_ACTIONS as readonly string[]).includes(action);
+
+// Clean value based on type
+export const coerceApiValue = (value: string, type: DataType): unknown => {
+  try {
+    return parseTypedValue(type, value);
+  } catch (err) {
+    if (err instanceof ValueError) throw new ApiError('invalid_value', err.message);
+    throw err;
+  }
+};
+
+const parseType = (type: string): DataType => {
+  if (!isDataType(type)) throw new ApiError('invalid_value', `Unknown type "${type}"`);
+  return type;
+};
+
+const requireKey = (key: string) => {
+  if (!key) throw new ApiError('missing_key', 'No key given');
+  const problem = invalidPath(key);
+  if (problem) throw new ApiError('invalid_path', `Key "${key}" is not a valid path: ${problem}`);
+};
+
+const requireNode = (nodes: DataNode[], key: string): DataNode => {
+  const node = resolvePath(nodes, key);
+  if (!node) throw new ApiError('missing_key', `Key "${key}" does not exist`);
+  return node;
+};
+
+const requireType = (node: DataNode, key: string, expected: DataType, action: string) => {
+  if (node.type !== expected) {
+    throw new ApiError('type_mismatch', `Cannot ${action} "${key}": it is a ${node.type}, not a ${expected}`);
+  }
+};
+
+const addToList = (nodes: DataNode[], { key, value, type }: ApiRequest, atStart: boolean): DataNode[] => {
+  const itemType = parseType(type);
+  const item: DataNode = { id: generateId(), name: '', type: itemType, value: coerceApiValue(value, itemType) };
+  const existing = resolvePath(nodes, key);
+  if (existing) requireType(existing, key, 'list', atStart ? 'prepend' : 'append');
+
+  return updateDeepNode(nodes, key, (node, name) => {
+    const items = (node?.value as DataNode[] | undefined) ?? [];
+    const value = renumberList(atStart ? [item, ...items] : [...items, item]);
+    return node ? { ...node, value } : { id: generateId(), name, type: 'list', value };
+  });
+};
+
+const adjustNumber = (nodes: DataNode[], { action, key, value }: ApiRequest, sign: 1 | -1): DataNode[] => {
+  const amount = value.trim() === '' ? 1 : Number(value);
+  if (isNaN(amount)) throw new ApiError('invalid_value', `"${value}" is not a number`);
+  const existing = resolvePath(nodes, key);
+  if (existing) requireType(existing, key, 'number', action);
+
+  return updateDeepNode(nodes, key, (node, name) => {
+    const next = Number(node?.value ?? 0) + sign * amount;
+    return node ? { ...node, value: next } : { id: generateId(), name, type: 'number', value: next };
+  });
+};
+
+const mergeJson = (nodes: DataNode[], { key, value }: ApiRequest): DataNode[] => {
+  let payload: unknown;
+  try {
+    payload = parseJson(value);
+  } catch {
+    throw new ApiError('invalid_value', 'Merge payload is not valid JSON');
+  }
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    throw new ApiError('invalid_value', 'Merge payload must be a JSON object');
+  }
+  const existing = resolvePath(nodes, key);
+  if (existing) requireType(existing, key, 'dictionary', 'merge');
+
+  const incoming = parseImport(payload).nodes;
+  return updateDeepNode(nodes, key, (node, name) =>
+    node
+      ? { ...node, value: mergeNodes(node.value as DataNode[], incoming) }
+      : { id: generateId(), name, type: 'dictionary', value: incoming }
+  );
+};
+
+// An empty set on a key with a default value writes the default instead
+const setValue = (nodes: DataNode[], { key, value, type }: ApiRequest): DataNode[] => {
+  const existing = resolvePath(nodes, key);
+  if (value === '' && existing?.rules?.default !== undefined) return setDeepValue(nodes, key, existing.rules.default, existing.type);
+  const cleanType = parseType(type);
+  return setDeepValue(nodes, key, coerceApiValue(value, cleanType), cleanType);
+};
+
+const applyWrite = (nodes: DataNode[], request: ApiRequest & { action: WriteAction }): { nodes: DataNode[], message: string } => {
+  const { action, key } = request;
+  switch (action) {
+    case 'set':
+      return { nodes: setValue(nodes, request), message: `Updated key "${key}"` };
+    case 'delete': {
+      requireNode(nodes, key);
+      const parentPath = formatPath(parsePath(key).slice(0, -1));
+      const parent = parentPath ? resolvePath(nodes, parentPath) : undefined;
+      let next = updateDeepNode(nodes, key, () => null);
+      if (parent?.type === 'list') next = updateDeepNode(next, parentPath, node => node ? { ...node, value: renumberList(node.value as DataNode[]) } : null);
+      return { nodes: next, message: `Deleted key "${key}"` };
+    }
+    case 'append':
+    case 'prepend':
+      return { nodes: addToList(nodes, request, action === 'prepend'), message: `${action === 'append' ? 'Appended to' : 'Prepended to'} "${key}"` };
+    case 'increment':
+    case 'decrement': {
+      const next = adjustNumber(nodes, request, action === 'increment' ? 1 : -1);
+      return { nodes: next, message: `Set "${key}" to ${resolvePath(next, key)?.value}` };
+    }
+    case 'toggle': {
+      const node = requireNode(nodes, key);
+      requireType(node, key, 'boolean', 'toggle');
+      const next = updateDeepNode(nodes, key, current => current ? { ...current, value: !current.value } : null);
+      return { nodes: next, message: `Toggled "${key}" to ${!node.value}` };
+    }
+    case 'merge':
+      return { nodes: mergeJson(nodes, request), message: `Merged into "${key}"` };
+  }
+};
+
+// Apply one URL API request to the tree, returning the new tree and a summary for the toast
+export const applyApiAction = (nodes: DataNode[], request: ApiRequest): { nodes: DataNode[], message: string } => {
+  const { action, key } = request;
+  requireKey(key);
+  if (!isWriteAction(action)) throw new ApiError('unknown_action', `Unknown action "${action}"`);
+  if (hasWildcard(parsePath(key))) throw new ApiError('invalid_path', `Cannot ${action} "${key}": wildcards can only be read`);
+
+  try {
+    const result = applyWrite(nodes, { ...request, action });
+    return { ...result, nodes: enforceRules(nodes, result.nodes) };
+  } catch (err) {
+    if (err instanceof SchemaError) throw new ApiError('rule_violation', err.message);
+    if (err instanceof PathError) throw new ApiError('invalid_path', `Cannot write "${key}": ${err.message}`);
+    throw err;
+  }
+};
+
+// Resolve a read request to callback parameters: scalars as text, containers as JSON
+export const readApiValue = (nodes: DataNode[], { action, key }: ApiRequest): { result: string, type: string } => {
+  requireKey(key);
+  if (!isReadAction(action)) throw new ApiError('unknown_action', `Unknown action "${action}"`);
+
+  // A wildcard get returns every match as a JSON array
+  if (action === 'get' && hasWildcard(parsePath(key))) {
+    const matches = resolveAll(nodes, key);
+    if (!matches) throw new ApiError('missing_key', `Key "${key}" does not exist`);
+    return { result: JSON.stringify(matches.map(nodeToJson)), type: 'list' };
+  }
+  const node = requireNode(nodes, key);
+
+  if (action === 'evaluate') {
+    requireType(node, key, 'expression', 'evaluate');
+    const { result, error } = evaluateExpression(String(node.value), nodes);
+    if (error) throw new ApiError('evaluation_failed', error);
+    return { result: formatValue(result), type: 'expression' };
+  }
+
+  const value = nodeToJson(node);
+  return { result: typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value), type: node.type };
+};
+
+// --- Batches ---
+//
+// One Shortcut call can carry an ordered list of write operations:
+//   ?ops=[{"action":"set","key":"mood","value":"good"},{"action":"increment","key":"stats.runs"}]
+// or the same JSON base64-encoded (standard or URL-safe), which survives
+// Shortcuts' URL handling better. The batch applies to a copy of the tree, so
+// if any operation fails none of them take effect.
+
+const fromBase64 = (text: string): string => {
+  const standard = text.replace(/-/g, '+').replace(/_/g, '/').replace(/\s/g, '');
+  const bytes = Uint8Array.from(atob(standard.padEnd(Math.ceil(standard.length / 4) * 4, '=')), c => c.charCodeAt(0));
+  return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+};
+
+const toBase64Url = (text: string): string => {
+  const binary = Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+// JSON values in an operation may be typed directly: {"key": "count", "value": 5}
+const opValue = (value: unknown): { value: string, type?: DataType } => {
+  if (value === undefined) return { value: '' };
+  if (value === null) return { value: '', type: 'null' };
+  if (typeof value === 'number') return { value: String(value), type: 'number' };
+  if (typeof value === 'boolean') return { value: String(value), type: 'boolean' };
+  if (typeof value === 'object') return { value: JSON.stringify(value) };
+  return { value: String(value) };
+};
+
+export const parseBatchOps = (raw: string): ApiRequest[] => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(raw.trim().startsWith('[') ? raw : fromBase64(raw));
+  } catch {
+    throw new ApiError('invalid_batch', 'ops must be a JSON array of operations, optionally base64-encoded');
+  }
+  if (!Array.isArray(payload) || payload.length === 0) throw new ApiError('invalid_batch', 'ops must be a non-empty JSON array');
+
+  return payload.map((op, index) => {
+    if (typeof op !== 'object' || op === null || Array.isArray(op)) {
+      throw new ApiError('invalid_batch', `Operation ${index + 1} is not an object`);
+    }
+    const { action = 'set', key, value, type } = op as Record<string, unknown>;
+    if (typeof action !== 'string' || !isWriteAction(action)) {
+      throw new ApiError('invalid_batch', `Operation ${index + 1}: "${action}" is not a write action`);
+    }
+    if (typeof key !== 'string') throw new ApiError('invalid_batch', `Operation ${index + 1} has no key`);
+    const typed = opValue(value);
+    return { action, key, value: typed.value, type: typeof type === 'string' ? type : typed.type ?? 'text' };
+  });
+};
+
+// The `ops=` value for a batch, as URL-safe base64
+export const encodeBatchOps = (ops: ApiRequest[]): string =>
+  toBase64Url(JSON.stringify(ops.map(({ action, key, value, type }) => ({
+    action,
+    key,
+    ...(actionTakesValue(action as ApiAction) ? { value } : {}),
+    ...(actionTakesType(action as ApiAction) ? { type } : {}),
+  }))));
+
+// Apply every operation in order to one working copy of the tree. The first
+// failure throws (naming the operation) and the caller's tree is left as it was.
+// `check` vets each operation against the tree as the earlier ones left it,
+// since they can move what a key points at.
+export const applyApiBatch = (
+  nodes: DataNode[],
+  ops: ApiRequest[],
+  check: (nodes: DataNode[], op: ApiRequest) => void = () => {}
+): { nodes: DataNode[], message: string } => {
+  const counts = new Map<string, number>();
+  const next = ops.reduce((current, op, index) => {
+    try {
+      check(current, op);
+      const result = applyApiAction(current, op).nodes;
+      counts.set(op.action, (counts.get(op.action) ?? 0) + 1);
+      return result;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      const code = err instanceof ApiError ? err.code : 'invalid_batch';
+      throw new ApiError(code, `Batch rolled back: operation ${index + 1} (${op.action} "${op.key}") failed: ${message}`);
+    }
+  }, nodes);
+
+  const summary = [...counts].map(([action, count]) => `${count} ${action}`).join(', ');
+  return { nodes: next, message: `Applied ${ops.length} operation${ops.length === 1 ? '' : 's'} (${summary})` };
+};
+
+// --- x-callback-url ---
+
+export interface CallbackUrls {
+  success?: string;
+  error?: string;
+  cancel?: string;
+}
+
+// Schemes a callback may send the browser to. Anything else (javascript:,
+// data:, ...) could run script in this page, so those callbacks are dropped
+// and the outcome is shown in the app instead.
+const CALLBACK_SCHEMES = ['shortcuts:', 'http:', 'https:'];
+
+export const isSafeCallback = (target: string): boolean => {
+  try {
+    return CALLBACK_SCHEMES.includes(new URL(target).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Any page can link here, so a read that isn't signed only answers to Shortcuts
+export const isShortcutsCallback = (target: string): boolean => {
+  try {
+    return new URL(target).protocol === 'shortcuts:';
+  } catch {
+    return false;
+  }
+};
+
+const readCallback = (params: URLSearchParams, name: string): string | undefined => {
+  const target = params.get(name);
+  return target && isSafeCallback(target) ? target : undefined;
+};
+
+export const readCallbackUrls = (params: URLSearchParams): CallbackUrls => ({
+  success: readCallback(params, 'x-success'),
+  error: readCallback(params, 'x-error'),
+  cancel: readCallback(params, 'x-cancel'),
+});
+
+// Append result parameters to a caller-supplied callback URL
+export const buildCallbackUrl = (target: string, params: Record<string, string> = {}): string => {
+  if (!isSafeCallback(target)) throw new Error(`Refusing to open callback "${target}"`);
+  const query = new URLSearchParams(params).toString();
+  if (!query) return target;
+  return `${target}${target.includes('?') ? '&' : '?'}${query}`;
+};
+
+export const errorCallbackParams = (err: unknown): Record<string, string> => ({
+  errorCode: err instanceof ApiError ? err.code : 'internal_error',
+  errorMessage: err instanceof Error ? err.message : String(err),
+});